@@ -0,0 +1,1303 @@
+import { parse, type ParserPlugin } from "@babel/parser";
+import type {
+  CallExpression,
+  ClassDeclaration,
+  ClassExpression,
+  ClassMethod,
+  Comment,
+  Expression,
+  Node,
+  Statement,
+} from "@babel/types";
+
+/**
+ * Static analysis of element modules.
+ *
+ * Finds every custom element registration in a module — `@customElement`
+ * decorators and `customElements.define` calls in all the shapes we write
+ * them — together with the class they register and the positions the
+ * transform needs to rewrite. Everything is based on a parsed AST, so
+ * braces in strings, template literals or comments can't confuse it.
+ */
+
+export interface ElementRegistration {
+  kind: "define" | "decorator";
+  /** Source text of the tag name argument */
+  tagExpr: string;
+  /** The tag name, when it is a static string */
+  tagName: string | null;
+  /**
+   * For `define`: source text of the class argument.
+   * For `decorator`: the class binding (null for anonymous default exports).
+   */
+  classExpr: string | null;
+  /** Range of the `customElements.define` callee, or of the whole decorator */
+  start: number;
+  end: number;
+  /** `define` only: range of the class argument; extra args go after it */
+  classArgStart?: number;
+  classArgEnd?: number;
+  /** `define` only: whether an options argument (`{ extends }`) follows */
+  hasOptions?: boolean;
+  /** `decorator` only: end of the statement declaring the class */
+  insertAt?: number;
+  /** `decorator` only: where to insert a generated name for anonymous classes */
+  nameAt?: number;
+  /** Reactive properties the class declares itself */
+  fields: ReactiveField[];
+  /** Null for `define` calls whose class couldn't be resolved */
+  shape: ClassShape | null;
+  /** `static hmrRecreate = true | false` on the class, null when absent */
+  recreate: boolean | null;
+}
+
+export interface ReactiveField {
+  name: string;
+  /** Source text of the initializer, null when the field has none */
+  initializer: string | null;
+  /**
+   * Whether the initializer can be evaluated outside the class, in module
+   * scope, and again without side effects: it doesn't use `this`, `super`,
+   * `arguments` or private names, and makes no calls, `await` or `new`
+   * other than of built-ins like `Map` or `Date`
+   */
+  moduleScoped: boolean;
+  /** JSON of the initializer when it is a plain-data literal */
+  staticValue: string | null;
+}
+
+export interface ClassShape {
+  /** Source text of the `extends` clause */
+  superClass: string | null;
+  /** Source text of the constructor, minus reactive property assignments */
+  constructorSource: string | null;
+  /** Non-reactive instance fields, as `name = initializer` */
+  fields: string[];
+  /** Source text of `static shadowRootOptions` */
+  shadowRootOptions: string | null;
+}
+
+export interface ControllerClass {
+  /** Local class binding */
+  className: string;
+  /** End of the statement declaring the class */
+  insertAt: number;
+  shape: ClassShape;
+}
+
+export interface ModuleAnalysis {
+  registrations: ElementRegistration[];
+  /** Top-level reactive controller classes */
+  controllers: ControllerClass[];
+  /** Whether every value export of the module is a controller class */
+  onlyExportsControllers: boolean;
+  /**
+   * Ranges of `customElements.get` callees that guard a define in the same
+   * module (`if (!customElements.get('x')) customElements.define(...)`).
+   */
+  guards: Array<{ start: number; end: number }>;
+  /** Relative import bindings that are referenced as values */
+  localImports: string[];
+  /**
+   * Sources of imports whose bindings the module reads while it evaluates:
+   * outside functions, instance field initializers and `static styles`
+   * entries. Values built from them there keep the old bindings' values.
+   */
+  eagerImports: string[];
+  /**
+   * Ranges of the classes the module defines on scoped registries: values
+   * of `static elementDefinitions` and class arguments of `define` calls on
+   * registries other than `customElements`.
+   */
+  scopedClasses: Array<{ start: number; end: number }>;
+}
+
+const SKIP_KEYS = new Set([
+  "leadingComments",
+  "trailingComments",
+  "innerComments",
+  "loc",
+  "extra",
+]);
+
+// Keys holding type-only subtrees; identifiers below them are not values
+const TYPE_KEYS = new Set([
+  "typeAnnotation",
+  "typeParameters",
+  "typeArguments",
+  "superTypeParameters",
+  "returnType",
+  "implements",
+]);
+
+const TYPE_ONLY_NODES = new Set([
+  "TSInterfaceDeclaration",
+  "TSTypeAliasDeclaration",
+  "TSDeclareFunction",
+  "TSDeclareMethod",
+  "TSModuleDeclaration",
+  "ImportDeclaration",
+]);
+
+const HOST_CALLBACKS = new Set([
+  "hostConnected",
+  "hostDisconnected",
+  "hostUpdate",
+  "hostUpdated",
+]);
+
+const GLOBAL_OBJECTS = new Set(["window", "globalThis", "self"]);
+
+const LIT_DECORATOR_SOURCE_RE = /^(lit|lit-element|@lit\/reactive-element)(\/|$)/;
+
+// Any Lit package a template or style module may import `html` / `css` from
+const LIT_SOURCE_RE = /^(lit|lit-html|lit-element|@lit\/reactive-element)(\/|$)/;
+
+type Visitor = (node: Node, parents: Node[], key: string | null) => boolean | void;
+
+function isNode(value: unknown): value is Node {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as { type?: unknown }).type === "string"
+  );
+}
+
+/**
+ * Depth-first walk over every node. Returning `false` from the visitor skips
+ * the node's children.
+ */
+function walk(node: Node, visit: Visitor, parents: Node[] = [], key: string | null = null) {
+  if (visit(node, parents, key) === false) return;
+  parents.push(node);
+  for (const childKey of Object.keys(node)) {
+    if (SKIP_KEYS.has(childKey)) continue;
+    const value = (node as unknown as Record<string, unknown>)[childKey];
+    if (Array.isArray(value)) {
+      for (const child of value) {
+        if (isNode(child)) walk(child, visit, parents, childKey);
+      }
+    } else if (isNode(value)) {
+      walk(value, visit, parents, childKey);
+    }
+  }
+  parents.pop();
+}
+
+function parserPlugins(id: string): ParserPlugin[] {
+  const file = id.split("?")[0];
+  const plugins: ParserPlugin[] = [
+    "decorators",
+    "decoratorAutoAccessors",
+    "importAttributes",
+    "explicitResourceManagement",
+  ];
+  if (/\.[cm]?tsx?$/.test(file)) {
+    plugins.push("typescript");
+    if (file.endsWith("x")) plugins.push("jsx");
+  } else {
+    plugins.push("jsx");
+  }
+  return plugins;
+}
+
+function staticString(node: Node | undefined): string | null {
+  if (!node) return null;
+  if (node.type === "StringLiteral") return node.value;
+  if (node.type === "TemplateLiteral" && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked ?? null;
+  }
+  return null;
+}
+
+/**
+ * Matches `customElements.<method>`, optionally reached through `window`,
+ * `globalThis` or `self`.
+ */
+function isCustomElementsCall(node: CallExpression, method: string): boolean {
+  const callee = node.callee;
+  if (callee.type !== "MemberExpression" || callee.computed) return false;
+  if (callee.property.type !== "Identifier" || callee.property.name !== method) return false;
+
+  const object = callee.object;
+  if (object.type === "Identifier") return object.name === "customElements";
+  return (
+    object.type === "MemberExpression" &&
+    !object.computed &&
+    object.object.type === "Identifier" &&
+    GLOBAL_OBJECTS.has(object.object.name) &&
+    object.property.type === "Identifier" &&
+    object.property.name === "customElements"
+  );
+}
+
+const FUNCTION_TYPES = new Set([
+  "FunctionDeclaration",
+  "FunctionExpression",
+  "ArrowFunctionExpression",
+  "ClassMethod",
+  "ClassPrivateMethod",
+  "ObjectMethod",
+]);
+
+/**
+ * Whether a reference is read when the module evaluates, rather than later
+ * from a function, an instance field initializer, or as an entry of
+ * `static styles`, where the runtime swaps the value itself.
+ */
+function readsWhileEvaluating(node: Node, parents: Node[]): boolean {
+  for (let i = parents.length - 1; i >= 0; i--) {
+    const parent = parents[i];
+    if (FUNCTION_TYPES.has(parent.type)) return false;
+    if (
+      (parent.type === "ClassProperty" || parent.type === "ClassPrivateProperty" || parent.type === "ClassAccessorProperty") &&
+      parent.value &&
+      node.start! >= parent.value.start! &&
+      node.end! <= parent.value.end!
+    ) {
+      if (!parent.static) return false;
+      const isStyles = parent.key.type === "Identifier" && parent.key.name === "styles";
+      const value = parent.value;
+      return !(
+        isStyles &&
+        (value === node || (value.type === "ArrayExpression" && value.elements.includes(node as Expression)))
+      );
+    }
+  }
+  return true;
+}
+
+// `registry.define('x', El)` on anything but `customElements`
+function isScopedDefineCall(node: CallExpression): boolean {
+  const callee = node.callee;
+  return (
+    callee.type === "MemberExpression" &&
+    !callee.computed &&
+    callee.property.type === "Identifier" &&
+    callee.property.name === "define" &&
+    !isCustomElementsCall(node, "define") &&
+    node.arguments.length >= 2 &&
+    node.arguments[1].type !== "SpreadElement" &&
+    node.arguments[1].type !== "ArgumentPlaceholder"
+  );
+}
+
+function containsCall(root: Node, method: string): boolean {
+  let found = false;
+  walk(root, (node) => {
+    if (found) return false;
+    if (node.type === "CallExpression" && isCustomElementsCall(node, method)) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/**
+ * Position right after the `class` keyword of a class node. Decorators are
+ * part of the class node's range, so we scan from the last decorator,
+ * skipping comments.
+ */
+function classKeywordEnd(
+  code: string,
+  node: ClassDeclaration | ClassExpression,
+  comments: Comment[]
+): number {
+  const decorators = node.decorators ?? [];
+  const from = decorators.length > 0 ? decorators[decorators.length - 1].end! : node.start!;
+  const to = (node.superClass ?? node.body).start!;
+  const re = /\bclass\b/g;
+  re.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(code)) !== null && match.index < to) {
+    const index = match.index;
+    if (!comments.some((c) => c.start! <= index && index < c.end!)) {
+      return index + match[0].length;
+    }
+  }
+  return to;
+}
+
+type ClassNode = ClassDeclaration | ClassExpression;
+
+function memberName(member: { key: Node; computed?: boolean }): string | null {
+  if (member.computed) return null;
+  if (member.key.type === "Identifier") return member.key.name;
+  return staticString(member.key);
+}
+
+const NO_VALUE = Symbol("no value");
+
+/**
+ * Value of a plain-data literal (numbers, strings, booleans, null, and
+ * arrays / objects of those), without evaluating anything.
+ */
+function literalValue(node: Node): unknown {
+  switch (node.type) {
+    case "NumericLiteral":
+      return Number.isFinite(node.value) ? node.value : NO_VALUE;
+    case "StringLiteral":
+    case "BooleanLiteral":
+      return node.value;
+    case "NullLiteral":
+      return null;
+    case "TemplateLiteral":
+      return node.expressions.length === 0 ? node.quasis[0].value.cooked ?? NO_VALUE : NO_VALUE;
+    case "UnaryExpression":
+      if ((node.operator === "-" || node.operator === "+") && node.argument.type === "NumericLiteral") {
+        const value = literalValue(node.argument);
+        return value === NO_VALUE || node.operator === "+" ? value : -(value as number);
+      }
+      return NO_VALUE;
+    case "ParenthesizedExpression":
+    case "TSAsExpression":
+    case "TSSatisfiesExpression":
+    case "TSNonNullExpression":
+      return literalValue(node.expression);
+    case "ArrayExpression": {
+      const items: unknown[] = [];
+      for (const element of node.elements) {
+        const value = element && element.type !== "SpreadElement" ? literalValue(element) : NO_VALUE;
+        if (value === NO_VALUE) return NO_VALUE;
+        items.push(value);
+      }
+      return items;
+    }
+    case "ObjectExpression": {
+      const object: Record<string, unknown> = {};
+      for (const prop of node.properties) {
+        if (prop.type !== "ObjectProperty") return NO_VALUE;
+        const key = memberName(prop);
+        const value = key === null ? NO_VALUE : literalValue(prop.value);
+        if (value === NO_VALUE) return NO_VALUE;
+        object[key!] = value;
+      }
+      return object;
+    }
+    default:
+      return NO_VALUE;
+  }
+}
+
+function usesClassScope(root: Node): boolean {
+  let found = false;
+  walk(root, (node) => {
+    if (found) return false;
+    if (
+      node.type === "ThisExpression" ||
+      node.type === "Super" ||
+      node.type === "PrivateName" ||
+      (node.type === "Identifier" && node.name === "arguments")
+    ) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+const SIDE_EFFECT_TYPES = new Set([
+  "CallExpression",
+  "OptionalCallExpression",
+  "NewExpression",
+  "TaggedTemplateExpression",
+  "ImportExpression",
+  "AwaitExpression",
+  "YieldExpression",
+  "AssignmentExpression",
+  "UpdateExpression",
+]);
+
+// Built-ins whose constructors only build a value (`new Map()`); their
+// arguments are checked like the rest of the expression
+const PURE_CONSTRUCTORS = new Set([
+  "Array",
+  "Date",
+  "Error",
+  "Map",
+  "Object",
+  "RegExp",
+  "Set",
+  "URL",
+  "URLSearchParams",
+  "WeakMap",
+  "WeakSet",
+]);
+
+// Function bodies don't run when the expression is evaluated
+function hasSideEffects(root: Node): boolean {
+  let found = false;
+  walk(root, (node) => {
+    if (found) return false;
+    if (node.type === "NewExpression" && node.callee.type === "Identifier" && PURE_CONSTRUCTORS.has(node.callee.name)) {
+      return;
+    }
+    if (
+      SIDE_EFFECT_TYPES.has(node.type) ||
+      (node.type === "UnaryExpression" && node.operator === "delete")
+    ) {
+      found = true;
+      return false;
+    }
+    if (node.type === "ArrowFunctionExpression" || node.type === "FunctionExpression") {
+      return false;
+    }
+  });
+  return found;
+}
+
+function reactiveField(code: string, name: string, init: Node | null | undefined): ReactiveField {
+  if (!init) return { name, initializer: null, moduleScoped: false, staticValue: null };
+  const value = literalValue(init);
+  return {
+    name,
+    initializer: code.slice(init.start!, init.end!),
+    moduleScoped: !usesClassScope(init) && !hasSideEffects(init),
+    staticValue: value === NO_VALUE ? null : JSON.stringify(value),
+  };
+}
+
+function findConstructor(node: ClassNode): ClassMethod | undefined {
+  return node.body.body.find(
+    (member): member is ClassMethod => member.type === "ClassMethod" && member.kind === "constructor"
+  );
+}
+
+// `this.name = value;` as a statement of its own
+function thisAssignment(statement: Statement): { name: string; value: Expression } | null {
+  if (statement.type !== "ExpressionStatement") return null;
+  const expr = statement.expression;
+  if (
+    expr.type === "AssignmentExpression" &&
+    expr.operator === "=" &&
+    expr.left.type === "MemberExpression" &&
+    expr.left.object.type === "ThisExpression" &&
+    !expr.left.computed &&
+    expr.left.property.type === "Identifier"
+  ) {
+    return { name: expr.left.property.name, value: expr.right };
+  }
+  return null;
+}
+
+/**
+ * Reactive properties a class declares: fields decorated with `@property` /
+ * `@state`, and names listed in `static properties`, whose initial value is
+ * either a class field or a `this.x = ...` assignment in the constructor.
+ */
+function collectReactiveFields(
+  code: string,
+  node: ClassNode,
+  propertyDecorators: Set<string>
+): ReactiveField[] {
+  const fields = new Map<string, ReactiveField>();
+
+  const declared = new Set<string>();
+  for (const member of node.body.body) {
+    let props: Node | null | undefined = null;
+    if (member.type === "ClassProperty" && member.static && memberName(member) === "properties") {
+      props = member.value;
+    } else if (
+      member.type === "ClassMethod" &&
+      member.static &&
+      member.kind === "get" &&
+      memberName(member) === "properties"
+    ) {
+      const ret = member.body.body.find((statement) => statement.type === "ReturnStatement");
+      props = ret?.type === "ReturnStatement" ? ret.argument : null;
+    }
+    if (props?.type === "ObjectExpression") {
+      for (const prop of props.properties) {
+        if (prop.type === "SpreadElement") continue;
+        const name = memberName(prop);
+        if (name !== null) declared.add(name);
+      }
+    }
+  }
+
+  for (const member of node.body.body) {
+    if ((member.type !== "ClassProperty" && member.type !== "ClassAccessorProperty") || member.static) {
+      continue;
+    }
+    const name = memberName(member);
+    if (name === null) continue;
+    const decorated = (member.decorators ?? []).some(
+      ({ expression }) =>
+        expression.type === "CallExpression" &&
+        expression.callee.type === "Identifier" &&
+        propertyDecorators.has(expression.callee.name)
+    );
+    if (decorated || declared.has(name)) {
+      fields.set(name, reactiveField(code, name, member.value));
+    }
+  }
+
+  const ctor = findConstructor(node);
+  for (const statement of ctor?.body.body ?? []) {
+    const assignment = thisAssignment(statement);
+    if (assignment && declared.has(assignment.name)) {
+      fields.set(assignment.name, reactiveField(code, assignment.name, assignment.value));
+    }
+  }
+
+  for (const name of declared) {
+    if (!fields.has(name)) fields.set(name, reactiveField(code, name, null));
+  }
+  return [...fields.values()];
+}
+
+/**
+ * The parts of a class a hot update can't apply to live instances: they
+ * only take effect when an instance is constructed or the tag is defined.
+ * Reactive property defaults are left out, since those are applied.
+ */
+function classShape(code: string, node: ClassNode, reactive: ReactiveField[]): ClassShape {
+  const source = (from: Node) => code.slice(from.start!, from.end!);
+  const reactiveNames = new Set(reactive.map((field) => field.name));
+
+  const fields: string[] = [];
+  let shadowRootOptions: string | null = null;
+  for (const member of node.body.body) {
+    if (
+      member.type === "ClassProperty" ||
+      member.type === "ClassPrivateProperty" ||
+      member.type === "ClassAccessorProperty"
+    ) {
+      const name = member.key.type === "PrivateName"
+        ? `#${member.key.id.name}`
+        : memberName(member as { key: Node; computed?: boolean }) ?? source(member.key);
+      if (member.static) {
+        if (name === "shadowRootOptions") shadowRootOptions = member.value ? source(member.value) : "";
+      } else if (!reactiveNames.has(name)) {
+        fields.push(member.value ? `${name} = ${source(member.value)}` : name);
+      }
+    } else if (member.type === "ClassMethod" && member.static && memberName(member) === "shadowRootOptions") {
+      shadowRootOptions = source(member);
+    }
+  }
+
+  // The constructor without the reactive property assignments
+  const ctor = findConstructor(node);
+  let constructorSource: string | null = null;
+  if (ctor) {
+    constructorSource = "";
+    let from = ctor.start!;
+    for (const statement of ctor.body.body) {
+      const assignment = thisAssignment(statement);
+      if (assignment && reactiveNames.has(assignment.name)) {
+        constructorSource += code.slice(from, statement.start!);
+        from = statement.end!;
+      }
+    }
+    constructorSource += code.slice(from, ctor.end!);
+  }
+
+  return {
+    superClass: node.superClass ? source(node.superClass) : null,
+    constructorSource,
+    fields,
+    shadowRootOptions,
+  };
+}
+
+// Per-element opt-in to instance re-creation
+function recreateFlag(node: ClassNode): boolean | null {
+  for (const member of node.body.body) {
+    if (
+      member.type === "ClassProperty" &&
+      member.static &&
+      memberName(member) === "hmrRecreate" &&
+      member.value?.type === "BooleanLiteral"
+    ) {
+      return member.value.value;
+    }
+  }
+  return null;
+}
+
+/**
+ * A class is a reactive controller when it implements `ReactiveController`
+ * or has one of the host lifecycle callbacks.
+ */
+function isControllerClass(node: ClassDeclaration): boolean {
+  for (const impl of node.implements ?? []) {
+    const expr = impl.type === "TSExpressionWithTypeArguments" ? impl.expression : null;
+    if (expr?.type === "Identifier" && expr.name === "ReactiveController") return true;
+  }
+  return node.body.body.some(
+    (member) =>
+      member.type === "ClassMethod" &&
+      !member.static &&
+      !member.computed &&
+      member.key.type === "Identifier" &&
+      HOST_CALLBACKS.has(member.key.name)
+  );
+}
+
+function collectControllers(
+  code: string,
+  body: Node[]
+): Pick<ModuleAnalysis, "controllers" | "onlyExportsControllers"> {
+  const controllers: ControllerClass[] = [];
+  const controllerNames = new Set<string>();
+  let exportsOther = false;
+
+  for (const statement of body) {
+    const declaration =
+      statement.type === "ExportNamedDeclaration" || statement.type === "ExportDefaultDeclaration"
+        ? statement.declaration
+        : statement;
+    if (declaration?.type === "ClassDeclaration" && declaration.id && isControllerClass(declaration)) {
+      controllers.push({
+        className: declaration.id.name,
+        insertAt: statement.end!,
+        shape: classShape(code, declaration, []),
+      });
+      controllerNames.add(declaration.id.name);
+    }
+  }
+
+  for (const statement of body) {
+    if (statement.type === "ExportAllDeclaration") {
+      exportsOther ||= statement.exportKind !== "type";
+    } else if (statement.type === "ExportDefaultDeclaration") {
+      const declaration = statement.declaration;
+      exportsOther ||= !(
+        (declaration.type === "ClassDeclaration" && declaration.id && controllerNames.has(declaration.id.name)) ||
+        (declaration.type === "Identifier" && controllerNames.has(declaration.name))
+      );
+    } else if (statement.type === "ExportNamedDeclaration" && statement.exportKind !== "type") {
+      const declaration = statement.declaration;
+      if (declaration) {
+        exportsOther ||= !(
+          (declaration.type === "ClassDeclaration" && declaration.id && controllerNames.has(declaration.id.name)) ||
+          TYPE_ONLY_NODES.has(declaration.type)
+        );
+      }
+      for (const specifier of statement.specifiers) {
+        if (specifier.type === "ExportSpecifier" && specifier.exportKind === "type") continue;
+        exportsOther ||=
+          statement.source != null ||
+          specifier.type !== "ExportSpecifier" ||
+          !controllerNames.has(specifier.local.name);
+      }
+    }
+  }
+
+  return { controllers, onlyExportsControllers: controllers.length > 0 && !exportsOther };
+}
+
+/**
+ * Parses `code` and collects element registrations. Returns null when the
+ * module can't be parsed; Vite reports the syntax error itself later.
+ */
+export function analyzeModule(code: string, id: string): ModuleAnalysis | null {
+  let ast: ReturnType<typeof parse>;
+  try {
+    ast = parse(code, {
+      sourceType: "module",
+      plugins: parserPlugins(id),
+    });
+  } catch {
+    return null;
+  }
+
+  const comments = ast.comments ?? [];
+  const registrations: ElementRegistration[] = [];
+  const guards: ModuleAnalysis["guards"] = [];
+  const importBindings: string[] = [];
+  const decoratorNames = new Set(["customElement"]);
+  const propertyDecorators = new Set(["property", "state"]);
+  // Class bindings, to find the class a define call registers
+  const classBindings = new Map<string, ClassNode>();
+  const defineClasses = new Map<ElementRegistration, ClassNode | string | null>();
+  const classDetails = (cls: ClassNode) => {
+    const fields = collectReactiveFields(code, cls, propertyDecorators);
+    return { fields, shape: classShape(code, cls, fields), recreate: recreateFlag(cls) };
+  };
+  const valueRefs = new Set<string>();
+
+  const importSources = new Map<string, string>();
+  const eagerImports = new Set<string>();
+
+  for (const statement of ast.program.body) {
+    if (statement.type !== "ImportDeclaration" || statement.importKind === "type") continue;
+    const source = statement.source.value;
+
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === "ImportSpecifier" && specifier.importKind === "type") continue;
+      importSources.set(specifier.local.name, source);
+
+      if (source.startsWith(".")) {
+        importBindings.push(specifier.local.name);
+      }
+      if (LIT_DECORATOR_SOURCE_RE.test(source) && specifier.type === "ImportSpecifier") {
+        const imported =
+          specifier.imported.type === "Identifier"
+            ? specifier.imported.name
+            : specifier.imported.value;
+        if (imported === "customElement") decoratorNames.add(specifier.local.name);
+        if (imported === "property" || imported === "state") {
+          propertyDecorators.add(specifier.local.name);
+        }
+      }
+    }
+  }
+
+  const guardedCalls = new Set<Node>();
+  const scopedClasses: ModuleAnalysis["scopedClasses"] = [];
+
+  walk(ast.program, (node, parents, key) => {
+    if (TYPE_ONLY_NODES.has(node.type) || (key !== null && TYPE_KEYS.has(key))) {
+      return false;
+    }
+
+    if (node.type === "Identifier") {
+      const parent = parents[parents.length - 1];
+      const isPropertyName =
+        parent &&
+        (((parent.type === "MemberExpression" || parent.type === "OptionalMemberExpression") &&
+          key === "property" &&
+          !parent.computed) ||
+          ((parent.type === "ObjectProperty" ||
+            parent.type === "ClassProperty" ||
+            parent.type === "ClassMethod" ||
+            parent.type === "ClassAccessorProperty" ||
+            parent.type === "ObjectMethod") &&
+            key === "key" &&
+            !parent.computed));
+      if (!isPropertyName) valueRefs.add(node.name);
+      const source = importSources.get(node.name);
+      if (
+        !isPropertyName &&
+        source !== undefined &&
+        !parent?.type.endsWith("Specifier") &&
+        readsWhileEvaluating(node, parents)
+      ) {
+        eagerImports.add(source);
+      }
+      return;
+    }
+
+    // `if (!customElements.get(tag)) customElements.define(tag, El)` and
+    // `customElements.get(tag) || customElements.define(tag, El)`
+    if (
+      (node.type === "IfStatement" && containsCall(node.consequent, "define")) ||
+      (node.type === "ConditionalExpression" && containsCall(node.alternate, "define")) ||
+      (node.type === "LogicalExpression" && containsCall(node.right, "define"))
+    ) {
+      const test = node.type === "LogicalExpression" ? node.left : node.test;
+      walk(test, (inner) => {
+        if (inner.type === "CallExpression" && isCustomElementsCall(inner, "get")) {
+          guardedCalls.add(inner);
+        }
+      });
+      return;
+    }
+
+    if (node.type === "CallExpression") {
+      if (guardedCalls.has(node)) {
+        guards.push({ start: node.callee.start!, end: node.callee.end! });
+        return;
+      }
+      if (isScopedDefineCall(node)) {
+        const classArg = node.arguments[1];
+        scopedClasses.push({ start: classArg.start!, end: classArg.end! });
+        return;
+      }
+      if (!isCustomElementsCall(node, "define") || node.arguments.length < 2) return;
+      const [tagArg, classArg, optionsArg] = node.arguments;
+      if (tagArg.type === "SpreadElement" || classArg.type === "SpreadElement") return;
+
+      const registration: ElementRegistration = {
+        kind: "define",
+        tagExpr: code.slice(tagArg.start!, tagArg.end!),
+        tagName: staticString(tagArg),
+        classExpr: code.slice(classArg.start!, classArg.end!),
+        start: node.callee.start!,
+        end: node.callee.end!,
+        classArgStart: classArg.start!,
+        classArgEnd: classArg.end!,
+        hasOptions: optionsArg !== undefined,
+        fields: [],
+        shape: null,
+        recreate: null,
+      };
+      registrations.push(registration);
+
+      // Resolved once all class bindings are known
+      if (classArg.type === "Identifier") {
+        defineClasses.set(registration, classArg.name);
+      } else if (classArg.type === "ClassExpression") {
+        defineClasses.set(registration, classArg);
+      } else if (classArg.type === "ThisExpression") {
+        // customElements.define('x', this) in a static block
+        let blockIndex = parents.length - 1;
+        while (blockIndex >= 0 && parents[blockIndex].type !== "StaticBlock") blockIndex--;
+        const cls = blockIndex >= 2 ? parents[blockIndex - 2] : null;
+        if (cls?.type === "ClassDeclaration" || cls?.type === "ClassExpression") {
+          defineClasses.set(registration, cls);
+        }
+      }
+      return;
+    }
+
+    // `static elementDefinitions = { 'x-child': Child }`
+    if (
+      node.type === "ClassProperty" &&
+      node.static &&
+      !node.computed &&
+      node.key.type === "Identifier" &&
+      node.key.name === "elementDefinitions" &&
+      node.value?.type === "ObjectExpression"
+    ) {
+      for (const property of node.value.properties) {
+        if (property.type === "ObjectProperty") {
+          scopedClasses.push({ start: property.value.start!, end: property.value.end! });
+        }
+      }
+    }
+
+    if (node.type === "ClassDeclaration" && node.id) {
+      classBindings.set(node.id.name, node);
+    } else if (
+      node.type === "VariableDeclarator" &&
+      node.id.type === "Identifier" &&
+      node.init?.type === "ClassExpression"
+    ) {
+      classBindings.set(node.id.name, node.init);
+    }
+
+    if (node.type === "ClassDeclaration" || node.type === "ClassExpression") {
+      for (const decorator of node.decorators ?? []) {
+        const expr: Expression = decorator.expression;
+        if (
+          expr.type !== "CallExpression" ||
+          expr.callee.type !== "Identifier" ||
+          !decoratorNames.has(expr.callee.name) ||
+          expr.arguments.length < 1
+        ) {
+          continue;
+        }
+        const tagArg = expr.arguments[0];
+        if (tagArg.type === "SpreadElement" || tagArg.type === "ArgumentPlaceholder") continue;
+
+        // Registration goes after the statement that declares the class
+        let insertAt: number | undefined;
+        let classExpr = node.id ? node.id.name : null;
+        if (node.type === "ClassDeclaration") {
+          const parent = parents[parents.length - 1];
+          insertAt =
+            parent &&
+            (parent.type === "ExportNamedDeclaration" || parent.type === "ExportDefaultDeclaration")
+              ? parent.end!
+              : node.end!;
+        } else {
+          // `const Foo = @customElement('x') class extends LitElement {}`
+          const declarator = parents[parents.length - 1];
+          const declaration = parents[parents.length - 2];
+          if (
+            declarator?.type !== "VariableDeclarator" ||
+            declarator.id.type !== "Identifier" ||
+            declaration?.type !== "VariableDeclaration"
+          ) {
+            continue;
+          }
+          classExpr = declarator.id.name;
+          const exported = parents[parents.length - 3];
+          insertAt =
+            exported?.type === "ExportNamedDeclaration" ? exported.end! : declaration.end!;
+        }
+
+        registrations.push({
+          kind: "decorator",
+          tagExpr: code.slice(tagArg.start!, tagArg.end!),
+          tagName: staticString(tagArg),
+          classExpr,
+          start: decorator.start!,
+          end: decorator.end!,
+          insertAt,
+          nameAt: classExpr === null ? classKeywordEnd(code, node, comments) : undefined,
+          ...classDetails(node),
+        });
+      }
+    }
+  });
+
+  for (const [registration, target] of defineClasses) {
+    const cls = typeof target === "string" ? classBindings.get(target) : target;
+    if (cls) Object.assign(registration, classDetails(cls));
+  }
+
+  return {
+    registrations,
+    ...collectControllers(code, ast.program.body),
+    guards,
+    localImports: importBindings.filter((name) => valueRefs.has(name)),
+    eagerImports: [...eagerImports],
+    scopedClasses,
+  };
+}
+
+/**
+ * A template or style module: it imports from Lit and only declares values
+ * (`html` partials, shared `css`, helpers), without classes or top-level
+ * statements with side effects. Its exports can be rebound in place, so it
+ * accepts its own hot updates instead of re-executing its importers.
+ */
+export interface SharedModule {
+  /** Export names and the local bindings holding them */
+  exports: Array<{ exported: string; local: string }>;
+  /** Starts of the `const` declarations of exported bindings, to become `let` */
+  constDeclarations: number[];
+  /**
+   * `export default <expression>`: the range of `export default`, replaced
+   * by a binding declaration, and the end of the statement
+   */
+  defaultExpression: { start: number; end: number; statementEnd: number } | null;
+}
+
+/**
+ * Returns the exports of a template or style module, or null when the
+ * module isn't one (or can't be parsed).
+ */
+export function analyzeSharedModule(code: string, id: string): SharedModule | null {
+  let ast: ReturnType<typeof parse>;
+  try {
+    ast = parse(code, {
+      sourceType: "module",
+      plugins: parserPlugins(id),
+    });
+  } catch {
+    return null;
+  }
+
+  let importsLit = false;
+  // Top-level value bindings declared by the module, and whether with `const`
+  const declared = new Map<string, number | null>();
+  const exports: SharedModule["exports"] = [];
+  const exportedLocals: string[] = [];
+  let defaultExpression: SharedModule["defaultExpression"] = null;
+
+  const declare = (node: Node): boolean => {
+    if (node.type === "VariableDeclaration") {
+      if (node.declare) return true;
+      for (const declarator of node.declarations) {
+        // Destructured bindings are fine unless exported, checked below
+        if (declarator.id.type === "Identifier") {
+          declared.set(declarator.id.name, node.kind === "const" ? node.start! : null);
+        }
+      }
+      return true;
+    }
+    if (node.type === "FunctionDeclaration") {
+      if (node.id) declared.set(node.id.name, null);
+      return true;
+    }
+    return TYPE_ONLY_NODES.has(node.type) || node.type === "TSEnumDeclaration" || node.type === "EmptyStatement";
+  };
+
+  for (const statement of ast.program.body) {
+    if (statement.type === "ImportDeclaration") {
+      importsLit ||=
+        statement.importKind !== "type" &&
+        LIT_SOURCE_RE.test(statement.source.value) &&
+        statement.specifiers.some(
+          (specifier) => specifier.type !== "ImportSpecifier" || specifier.importKind !== "type"
+        );
+    } else if (statement.type === "ExportAllDeclaration") {
+      // Re-exported bindings belong to the other module
+      if (statement.exportKind !== "type") return null;
+    } else if (statement.type === "ExportNamedDeclaration") {
+      if (statement.exportKind === "type") continue;
+      if (statement.source) return null;
+      const declaration = statement.declaration;
+      if (declaration) {
+        if (!declare(declaration)) return null;
+        if (declaration.type === "VariableDeclaration" && !declaration.declare) {
+          for (const declarator of declaration.declarations) {
+            if (declarator.id.type !== "Identifier") return null;
+            exports.push({ exported: declarator.id.name, local: declarator.id.name });
+            exportedLocals.push(declarator.id.name);
+          }
+        } else if (declaration.type === "FunctionDeclaration" && declaration.id) {
+          exports.push({ exported: declaration.id.name, local: declaration.id.name });
+        } else if (declaration.type === "TSEnumDeclaration") {
+          return null;
+        }
+      }
+      for (const specifier of statement.specifiers) {
+        if (specifier.type !== "ExportSpecifier") return null;
+        if (specifier.exportKind === "type") continue;
+        const exported =
+          specifier.exported.type === "Identifier" ? specifier.exported.name : specifier.exported.value;
+        exports.push({ exported, local: specifier.local.name });
+        exportedLocals.push(specifier.local.name);
+      }
+    } else if (statement.type === "ExportDefaultDeclaration") {
+      const declaration = statement.declaration;
+      if (TYPE_ONLY_NODES.has(declaration.type)) continue;
+      if (declaration.type === "FunctionDeclaration" && declaration.id) {
+        declared.set(declaration.id.name, null);
+        exports.push({ exported: "default", local: declaration.id.name });
+      } else if (declaration.type === "Identifier") {
+        exports.push({ exported: "default", local: declaration.name });
+        exportedLocals.push(declaration.name);
+      } else {
+        defaultExpression = { start: statement.start!, end: declaration.start!, statementEnd: statement.end! };
+        exports.push({ exported: "default", local: "__litHmrDefault" });
+      }
+    } else if (!declare(statement)) {
+      // A top-level statement with side effects would run again
+      return null;
+    }
+  }
+
+  // Classes (base classes, mixins) are patched by re-executing the
+  // elements that extend them
+  let hasClass = false;
+  walk(ast.program, (node) => {
+    if (node.type === "ClassDeclaration" || node.type === "ClassExpression") hasClass = true;
+    return !hasClass;
+  });
+  if (!importsLit || hasClass || exports.length === 0) return null;
+
+  const constDeclarations = new Set<number>();
+  for (const local of exportedLocals) {
+    // Only the module's own bindings can be reassigned
+    if (!declared.has(local)) return null;
+    const start = declared.get(local);
+    if (start !== null && start !== undefined) constDeclarations.add(start);
+  }
+
+  return { exports, constDeclarations: [...constDeclarations], defaultExpression };
+}
+
+export interface StylesheetImport {
+  specifier: string;
+  /** Range of the specifier and the `with { type: 'css' }` clause after it */
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the imports and re-exports that load a stylesheet as a
+ * `CSSStyleSheet` (`import sheet from './x.css' with { type: 'css' }`).
+ * Returns null when the module can't be parsed.
+ */
+export function findStylesheetImports(code: string, id: string): StylesheetImport[] | null {
+  let ast: ReturnType<typeof parse>;
+  try {
+    ast = parse(code, {
+      sourceType: "module",
+      plugins: parserPlugins(id),
+    });
+  } catch {
+    return null;
+  }
+
+  const imports: StylesheetImport[] = [];
+  for (const statement of ast.program.body) {
+    if (
+      statement.type !== "ImportDeclaration" &&
+      statement.type !== "ExportNamedDeclaration" &&
+      statement.type !== "ExportAllDeclaration"
+    ) {
+      continue;
+    }
+    const attributes = statement.attributes ?? [];
+    const isStylesheet = attributes.some(
+      (attribute) =>
+        (attribute.key.type === "Identifier" ? attribute.key.name : attribute.key.value) === "type" &&
+        attribute.value.value === "css"
+    );
+    if (!statement.source || !isStylesheet) continue;
+    imports.push({
+      specifier: statement.source.value,
+      start: statement.source.start!,
+      end: code.indexOf("}", attributes[attributes.length - 1].end!) + 1,
+    });
+  }
+  return imports;
+}
+
+export interface PrivateState {
+  /**
+   * Native private names (`#x`) and the public name each is replaced with.
+   * Private names belong to one evaluation of a class, so a re-evaluated
+   * class can't reach the ones on existing instances.
+   */
+  privateNames: Array<{ start: number; end: number; replacement: string }>;
+  /**
+   * Storage created for lowered private members: the `new WeakMap()` /
+   * `new WeakSet()` (or loose-mode key) bound to `name` and passed to the
+   * compiler's private member helpers. `key` names it across versions: the
+   * class using it and its binding, without the counter compilers add to
+   * tell apart same-named members of different classes.
+   */
+  stores: Array<{ start: number; end: number; name: string; key: string }>;
+}
+
+// esbuild (`__privateGet`), TypeScript (`__classPrivateFieldGet`), Babel
+// (`_classPrivateFieldGet2`, `_assertClassBrand`) and SWC
+// (`_class_private_field_get`) helpers
+const PRIVATE_HELPER_RE = /private|ClassBrand/i;
+// Babel's and SWC's loose mode key private members by a generated string
+const LOOSE_KEY_RE = /LooseKey|loose_key/i;
+
+function privateMemberName(member: Node): string | null {
+  if (
+    (member.type === "ClassPrivateProperty" ||
+      member.type === "ClassPrivateMethod" ||
+      member.type === "ClassAccessorProperty") &&
+    member.key.type === "PrivateName"
+  ) {
+    return member.key.id.name;
+  }
+  return null;
+}
+
+/**
+ * A name for a class that stays the same across edits: its own name, or the
+ * variable or function it is created in (`const Mixin = (base) => class
+ * extends base {}`), numbered when several classes share it.
+ */
+function classLabel(cls: ClassNode, ancestors: Node[], used: Map<string, number>): string {
+  let label = cls.id?.name ?? null;
+  for (let i = ancestors.length - 1; label === null && i >= 0; i--) {
+    const ancestor = ancestors[i];
+    if (ancestor.type === "VariableDeclarator" && ancestor.id.type === "Identifier") {
+      label = ancestor.id.name;
+    } else if (ancestor.type === "FunctionDeclaration" && ancestor.id) {
+      label = ancestor.id.name;
+    }
+  }
+  label ??= "class";
+  const count = used.get(label) ?? 0;
+  used.set(label, count + 1);
+  return count === 0 ? label : `${label}${count + 1}`;
+}
+
+/**
+ * Finds the private member state of compiled output, whichever way the
+ * compiler emitted it: native `#x` members, or module-level stores used by
+ * the lowering helpers.
+ */
+export function findPrivateState(code: string): PrivateState | null {
+  let ast: ReturnType<typeof parse>;
+  try {
+    ast = parse(code, {
+      sourceType: "module",
+      plugins: ["decorators", "decoratorAutoAccessors", "importAttributes", "explicitResourceManagement"],
+    });
+  } catch {
+    return null;
+  }
+
+  const privateNames: PrivateState["privateNames"] = [];
+  const candidates: Array<{ start: number; end: number; name: string; scope: Node }> = [];
+  const helperArgs = new Set<string>();
+  const labels = new Map<Node, string>();
+  const usedLabels = new Map<string, number>();
+  // The first class each identifier is referenced in, by the function (or
+  // module) the class is in: mixins reuse binding names
+  const referencedIn = new Map<Node, Map<string, string>>();
+  const scopeOf = (parents: Node[], end = parents.length): Node => {
+    for (let i = end - 1; i >= 0; i--) {
+      const type = parents[i].type;
+      if (type === "FunctionDeclaration" || type === "FunctionExpression" || type === "ArrowFunctionExpression") {
+        return parents[i];
+      }
+    }
+    return ast.program;
+  };
+
+  walk(ast.program, (node, parents, key) => {
+    if (node.type === "ClassDeclaration" || node.type === "ClassExpression") {
+      labels.set(node, classLabel(node, parents, usedLabels));
+      return;
+    }
+
+    if (node.type === "Identifier") {
+      for (let i = parents.length - 1; i >= 0; i--) {
+        const label = labels.get(parents[i]);
+        if (label === undefined) continue;
+        const scope = scopeOf(parents, i);
+        let names = referencedIn.get(scope);
+        if (!names) {
+          names = new Map();
+          referencedIn.set(scope, names);
+        }
+        if (!names.has(node.name)) names.set(node.name, label);
+        break;
+      }
+      return;
+    }
+
+    if (node.type === "PrivateName") {
+      // Resolve the name to the innermost class declaring it
+      let owner = "";
+      for (let i = parents.length - 1; i >= 0; i--) {
+        const parent = parents[i];
+        if (parent.type !== "ClassBody") continue;
+        if (parent.body.some((member) => privateMemberName(member) === node.id.name)) {
+          owner = labels.get(parents[i - 1]) ?? "";
+          break;
+        }
+      }
+      const name = `__litHmrPrivate_${owner ? `${owner}_` : ""}${node.id.name}`;
+      const parent = parents[parents.length - 1];
+      // `#x in obj`
+      const isBrandCheck = parent?.type === "BinaryExpression" && key === "left";
+      privateNames.push({
+        start: node.start!,
+        end: node.end!,
+        replacement: isBrandCheck ? JSON.stringify(name) : name,
+      });
+      return false;
+    }
+
+    const isStore =
+      (node.type === "NewExpression" &&
+        node.callee.type === "Identifier" &&
+        (node.callee.name === "WeakMap" || node.callee.name === "WeakSet") &&
+        node.arguments.length === 0) ||
+      (node.type === "CallExpression" &&
+        node.callee.type === "Identifier" &&
+        LOOSE_KEY_RE.test(node.callee.name));
+    if (isStore) {
+      const parent = parents[parents.length - 1];
+      let name: string | null = null;
+      if (parent?.type === "VariableDeclarator" && key === "init" && parent.id.type === "Identifier") {
+        name = parent.id.name;
+      } else if (parent?.type === "AssignmentExpression" && key === "right" && parent.left.type === "Identifier") {
+        name = parent.left.name;
+      }
+      if (name !== null) candidates.push({ start: node.start!, end: node.end!, name, scope: scopeOf(parents) });
+      return;
+    }
+
+    if (
+      node.type === "CallExpression" &&
+      node.callee.type === "Identifier" &&
+      PRIVATE_HELPER_RE.test(node.callee.name)
+    ) {
+      for (const arg of node.arguments) {
+        if (arg.type === "Identifier") helperArgs.add(arg.name);
+      }
+    }
+  });
+
+  // Binding names are numbered module-wide (`_count`, `_count2`), so the
+  // number shifts when another class gains or loses the member
+  const seen = new Map<string, number>();
+  const stores = candidates
+    .filter((store) => helperArgs.has(store.name))
+    .map(({ start, end, name, scope }) => {
+      const base = `${referencedIn.get(scope)?.get(name) ?? ""}#${name.replace(/\d+$/, "")}`;
+      const count = seen.get(base) ?? 0;
+      seen.set(base, count + 1);
+      return { start, end, name, key: count === 0 ? base : `${base}#${count + 1}` };
+    });
+
+  return { privateNames, stores };
+}
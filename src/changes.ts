@@ -0,0 +1,107 @@
+import type { ClassShape, ControllerClass, ElementRegistration, ReactiveField } from "./analyze";
+
+export interface UnsupportedChange {
+  /** The element's tag, or the controller's class name */
+  tag: string;
+  reason: string;
+  /**
+   * Replacing the element's live instances with ones built from the new
+   * class applies the change
+   */
+  recreatable: boolean;
+}
+
+/**
+ * Compares the elements a module registered before and after an edit and
+ * explains the changes a hot swap can't apply, at most one per element: live
+ * instances were constructed and their tags defined with the old class, so
+ * those parts of it stay in effect until the page reloads or the instances
+ * are re-created.
+ *
+ * Returns an empty list when the update can be hot-swapped.
+ */
+export function findUnsupportedChanges(
+  previous: ElementRegistration[],
+  next: ElementRegistration[]
+): UnsupportedChange[] {
+  const tagOf = (reg: ElementRegistration) => reg.tagName ?? reg.tagExpr;
+  const before = new Map(previous.map((reg) => [tagOf(reg), reg]));
+  const after = new Map(next.map((reg) => [tagOf(reg), reg]));
+
+  const removed = [...before.keys()].filter((tag) => !after.has(tag));
+  const added = [...after.keys()].filter((tag) => !before.has(tag));
+  if (removed.length === 1 && added.length === 1) {
+    const reason = `tag name changed from <${removed[0]}> to <${added[0]}>`;
+    return [{ tag: removed[0], reason, recreatable: false }];
+  }
+  if (removed.length > 0) {
+    return [{ tag: removed[0], reason: `<${removed[0]}> is no longer defined`, recreatable: false }];
+  }
+
+  const changes: UnsupportedChange[] = [];
+  for (const [tag, reg] of after) {
+    const previousReg = before.get(tag)!;
+    const old = previousReg.shape;
+    const shape = reg.shape;
+    const change = (old && shape ? compareShapes(tag, `<${tag}>`, old, shape) : null) ??
+      compareDefaults(tag, previousReg.fields, reg.fields);
+    if (change) changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * A changed default the browser can't evaluate again (it uses `this` or has
+ * side effects, and isn't a literal) would only reach re-created instances.
+ */
+function compareDefaults(tag: string, previous: ReactiveField[], next: ReactiveField[]): UnsupportedChange | null {
+  const before = new Map(previous.map((field) => [field.name, field.initializer]));
+  const field = next.find(
+    (field) =>
+      field.initializer !== null &&
+      !field.moduleScoped &&
+      field.staticValue === null &&
+      before.get(field.name) !== field.initializer
+  );
+  if (!field) return null;
+  return { tag, reason: `the default of <${tag}>.${field.name} changed and can't be applied in place`, recreatable: true };
+}
+
+/**
+ * Compares the reactive controllers a module declared before and after an
+ * edit. Hosts keep the controllers they constructed and construct the first
+ * version from then on, so only new members reach them; constructor and
+ * field edits need a reload.
+ */
+export function findUnsupportedControllerChanges(
+  previous: ControllerClass[],
+  next: ControllerClass[]
+): UnsupportedChange[] {
+  const before = new Map(previous.map((controller) => [controller.className, controller.shape]));
+  const changes: UnsupportedChange[] = [];
+  for (const { className, shape } of next) {
+    const old = before.get(className);
+    if (!old) continue;
+    const change = compareShapes(className, `controller ${className}`, old, shape);
+    if (change) changes.push({ ...change, recreatable: false });
+  }
+  return changes;
+}
+
+function compareShapes(tag: string, label: string, old: ClassShape, shape: ClassShape): UnsupportedChange | null {
+  // Re-created instances still inherit from the first superclass
+  if (old.superClass !== shape.superClass) {
+    const reason = `${label} now extends ${shape.superClass ?? "nothing"} instead of ${old.superClass ?? "nothing"}`;
+    return { tag, reason, recreatable: false };
+  }
+  if (old.constructorSource !== shape.constructorSource) {
+    return { tag, reason: `the constructor of ${label} changed`, recreatable: true };
+  }
+  if (old.fields.join("\n") !== shape.fields.join("\n")) {
+    return { tag, reason: `the class fields of ${label} changed`, recreatable: true };
+  }
+  if (old.shadowRootOptions !== shape.shadowRootOptions) {
+    return { tag, reason: `shadowRootOptions of ${label} changed`, recreatable: true };
+  }
+  return null;
+}
@@ -0,0 +1,45 @@
+import { createFilter, type FilterPattern } from "vite";
+
+/**
+ * Decides which modules take part in Lit HMR.
+ *
+ * A module is considered when its id matches `include` and not `exclude`
+ * (Vite-style globs or regexes). A pragma comment anywhere at the start of a
+ * line overrides the id filter for that module:
+ *
+ *   // lit-hmr-disable   never transform this module
+ *   // lit-hmr-enable    transform it even if include/exclude rule it out
+ */
+
+export const DEFAULT_INCLUDE: FilterPattern = /\.[cm]?[jt]sx?$/;
+export const DEFAULT_EXCLUDE: FilterPattern = /[\\/]node_modules[\\/]/;
+// Stylesheet files, for the post plugin when `include` isn't set: the
+// default above only admits scripts
+export const DEFAULT_STYLESHEET_INCLUDE: FilterPattern = /\.(?:css|less|sass|scss|styl|stylus|pcss|postcss|sss)$/;
+
+const PRAGMA_RE = /^[ \t]*(?:\/\/|\/\*+)[ \t]*lit-hmr-(disable|enable)\b/m;
+
+export type ModuleFilter = (id: string, code: string) => boolean;
+
+export function readPragma(code: string): "disable" | "enable" | null {
+  const match = PRAGMA_RE.exec(code);
+  return match ? (match[1] as "disable" | "enable") : null;
+}
+
+export function createModuleFilter(
+  include: FilterPattern | undefined,
+  exclude: FilterPattern | undefined,
+  root?: string
+): ModuleFilter {
+  const matchesId = createFilter(include ?? DEFAULT_INCLUDE, exclude ?? DEFAULT_EXCLUDE, {
+    resolve: root,
+  });
+
+  return (id, code) => {
+    const pragma = readPragma(code);
+    if (pragma === "disable") return false;
+    if (pragma === "enable") return true;
+    // Match against the file path; queries like `?v=` or `?t=` are not part of it
+    return matchesId(id.replace(/[?#].*$/, ""));
+  };
+}
@@ -0,0 +1,87 @@
+import type { ModuleNode } from "vite";
+
+/**
+ * Walks up the importer graph from modules that changed but don't accept
+ * hot updates themselves (constants, helpers) and collects the nearest
+ * modules that can: element modules and other self-accepting modules.
+ *
+ * Returns null when the update should be left to Vite: some importer accepts
+ * the changed module explicitly (`import.meta.hot.accept(dep, ...)`), no
+ * element module is reachable, or a chain of importers reaches the root (e.g.
+ * the entry) without an accepting module, which Vite answers with a reload.
+ */
+export function findElementBoundaries(
+  changed: ModuleNode[],
+  elementModules: Set<string>
+): ModuleNode[] | null {
+  const boundaries = new Set<ModuleNode>();
+  const seen = new Set<ModuleNode>(changed);
+  const queue = [...changed];
+  let reachesElement = false;
+
+  while (queue.length > 0) {
+    const mod = queue.shift()!;
+    for (const importer of mod.importers) {
+      if (importer.acceptedHmrDeps.has(mod)) return null;
+      if (seen.has(importer)) continue;
+      seen.add(importer);
+
+      const isElementModule = importer.id !== null && elementModules.has(importer.id);
+      if (isElementModule || importer.isSelfAccepting) {
+        reachesElement ||= isElementModule;
+        boundaries.add(importer);
+      } else if (importer.importers.size === 0) {
+        // Nothing would give the entry the new bindings
+        return null;
+      } else {
+        queue.push(importer);
+      }
+    }
+  }
+
+  return reachesElement ? [...boundaries] : null;
+}
+
+/**
+ * Element modules that import a module, directly or through plain modules
+ * that don't accept hot updates themselves.
+ */
+export function findElementDependents(mod: ModuleNode, elementModules: Set<string>): string[] {
+  const dependents = new Set<string>();
+  const seen = new Set<ModuleNode>([mod]);
+  const queue = [mod];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const importer of current.importers) {
+      if (seen.has(importer)) continue;
+      seen.add(importer);
+      if (importer.id !== null && elementModules.has(importer.id)) {
+        dependents.add(importer.id);
+      } else if (!importer.isSelfAccepting) {
+        queue.push(importer);
+      }
+    }
+  }
+
+  return [...dependents];
+}
+
+/**
+ * Whether a template or style module's exports can be rebound in place:
+ * every importer is an element module that reads them only once it runs.
+ * Other importers, and values an element module built from them while it
+ * evaluated, would keep the old ones.
+ */
+export function canRebindExports(
+  mod: ModuleNode,
+  elementModules: Set<string>,
+  eagerImports: Map<string, Set<string>>
+): boolean {
+  return [...mod.importers].every(
+    (importer) =>
+      importer.id !== null &&
+      elementModules.has(importer.id) &&
+      !(mod.id !== null && eagerImports.get(importer.id)?.has(mod.id))
+  );
+}
@@ -1,5 +1,21 @@
 import type { Plugin, ViteDevServer, ModuleNode } from "vite";
+import { existsSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
 import MagicString from "magic-string";
+import {
+  analyzeModule,
+  analyzeSharedModule,
+  findPrivateState,
+  findStylesheetImports,
+  type ControllerClass,
+  type ElementRegistration,
+  type ReactiveField,
+} from "./analyze";
+import { findUnsupportedChanges, findUnsupportedControllerChanges, type UnsupportedChange } from "./changes";
+import { createModuleFilter, DEFAULT_STYLESHEET_INCLUDE, type ModuleFilter } from "./filter";
+import { canRebindExports, findElementBoundaries, findElementDependents } from "./graph";
+import { DEFAULT_LOG_LEVEL, shouldLog, type LogLevel } from "./log";
+import type { HmrUpdateResult } from "./runtime";
 
 /**
  * vite-plugin-lit-hmr
@@ -21,310 +37,541 @@ import MagicString from "magic-string";
  * delegates to the latest real class.
  */
 
-interface PluginOptions {
+// Element-side hooks and events, for typing elements
+export type { HmrAcceptingClass, HmrHooks, HmrUpdateDetail } from "./runtime";
+
+export interface PluginOptions {
   /**
-   * File patterns to include (glob or regex). Defaults to files containing
-   * customElements.define or @customElement.
+   * File patterns to include (glob or regex), resolved against the Vite root.
+   * Defaults to all JS/TS modules. Only modules that actually register
+   * elements are transformed.
    */
   include?: string | RegExp | (string | RegExp)[];
   /**
-   * File patterns to exclude.
+   * File patterns to exclude. Defaults to `node_modules`.
    */
   exclude?: string | RegExp | (string | RegExp)[];
+  /**
+   * What to do when an edit can't be hot-swapped (tag name or superclass
+   * change, edited constructor or class fields, `shadowRootOptions`, a
+   * removed define): `reload` invalidates the module, which usually reloads
+   * the page, `warn` hot-swaps anyway with a warning, `ignore` hot-swaps
+   * silently. Defaults to `reload`.
+   */
+  onUnsupportedChange?: "reload" | "warn" | "ignore";
+  /**
+   * Apply edits to the constructor, class fields or `shadowRootOptions` by
+   * replacing live instances with new ones built from the edited class,
+   * instead of treating them as unsupported. Elements can opt in or out
+   * individually with `static hmrRecreate = true | false`. Defaults to
+   * `false`.
+   */
+  recreateInstances?: boolean;
+  /**
+   * Add the HMR inspector overlay to the page: a panel listing every
+   * registered element with its module, live instances, update history and
+   * patch failures. Defaults to `false`.
+   */
+  inspector?: boolean;
+  /**
+   * How much the plugin logs, in the dev server terminal and in the browser
+   * console: `silent`, `error`, `warn`, `info` (one line per hot update) or
+   * `debug`. Defaults to `info`.
+   */
+  logLevel?: LogLevel;
+  /**
+   * When an update reloads the page, save the reactive property and state
+   * values of live elements to `sessionStorage` and restore them as the
+   * same elements connect after the reload. Defaults to `false`.
+   */
+  persistState?: boolean;
 }
 
-// Regex to detect customElements.define('tag-name', ClassName)
-const DEFINE_RE =
-  /customElements\.define\(\s*(['"`])([^'"`]+)\1\s*,\s*([a-zA-Z_$][\w$]*)\s*\)/g;
-
-// Regex to detect @customElement('tag-name') decorator
-const DECORATOR_RE =
-  /@customElement\(\s*(['"`])([^'"`]+)\1\s*\)/g;
-
-function isLitFile(code: string): boolean {
-  return (
-    DEFINE_RE.test(code) ||
-    DECORATOR_RE.test(code) ||
-    code.includes("from 'lit'") ||
-    code.includes('from "lit"') ||
-    code.includes("from 'lit/")
-  );
+// Cheap pre-check before parsing: both `customElements.define` and
+// `@customElement` contain this
+function mayDefineElements(code: string): boolean {
+  return code.includes("customElement");
 }
 
-export function litHmr(options: PluginOptions = {}): Plugin {
-  let server: ViteDevServer;
+// Reactive controllers implement at least one of the host callbacks
+function mayDefineControllers(code: string): boolean {
+  return code.includes("ReactiveController") || /\bhost(Connected|Disconnected|Update)/.test(code);
+}
 
-  /**
-   * The HMR runtime code injected into the client.
-   * This maintains the registry and handles hot-swapping.
-   */
-  const HMR_RUNTIME = (propsAndState: Array<{ type: "string" | "number" | "bigint" | "boolean" | "symbol" | "undefined" | "object" | "function"; name: string; value: unknown }>) => `
-    window.__LIT_HMR_REGISTRY__ ??= new Map();
-    window.__propsAndState__ = ${JSON.stringify(propsAndState)};
+// Defaults are evaluated in the browser, in the module's scope: initializers
+// that don't depend on the instance and have no side effects become thunks,
+// run when an update compares or applies them. The others only carry their
+// value when it is a plain-data literal.
+function defaultsArg(fields: ReactiveField[]): string {
+  const entries = fields.map((field) => {
+    const evaluate = field.initializer !== null && field.moduleScoped
+      ? `() => (${field.initializer})`
+      : "null";
+    return `[${JSON.stringify(field.name)}, ${JSON.stringify(field.initializer)}, ${evaluate}, ${JSON.stringify(field.staticValue)}]`;
+  });
+  return `[${entries.join(", ")}]`;
+}
 
-    /**
-     * Register or update a Lit element.
-     * On first call: creates a proxy class and registers it with customElements.
-     * On subsequent calls: swaps the underlying class and re-renders instances.
-     */
-    window.__litHmrDefine ??= function(tagName, ElementClass, moduleUrl, deps) {
-      const registry = window.__LIT_HMR_REGISTRY__;
-      const existing = registry.get(tagName);
-
-      if (!existing) {
-        // The proxy class extends the FIRST version of the element.
-        // On HMR updates, we patch its prototype chain.
-        const record = {
-          elementClass: ElementClass,
-          tagName,
-          instances: new Set(),
-        }
+// Template and style modules import `html` / `css` from one of these
+function mayShareTemplates(code: string): boolean {
+  return /["'](lit|lit-html|lit-element|@lit\/reactive-element)["'/]/.test(code);
+}
 
-        class HmrProxyElement extends ElementClass {
-          constructor() {
-            super();
-            record.instances.add(this);
-          }
-
-          disconnectedCallback() {
-            record.instances.delete(this);
-            if (super.disconnectedCallback) {
-              super.disconnectedCallback();
-            }
-          }
-        }
+// CSS module scripts: `import sheet from './x.css' with { type: 'css' }`
+function mayImportStylesheets(code: string): boolean {
+  return /\bwith\s*\{\s*["']?type["']?\s*:\s*["']css["']/.test(code);
+}
 
-        // Store reference to the proxy so we can patch it later
-        record.proxyClass = HmrProxyElement;
-        registry.set(tagName, record);
+// Native `#x` members or storage for lowered ones
+function mayUsePrivateState(code: string): boolean {
+  return /#|WeakMap|WeakSet|LooseKey|loose_key/.test(code);
+}
 
-        // Register with the real customElements registry — this only happens once
-        customElements.define(tagName, HmrProxyElement);
-      } else {
-        // HMR update: swap the class
+// Transformed modules import the runtime from here. The post plugin looks
+// for the import to follow the pre plugin's filtering decision, since pragma
+// comments don't survive compilation.
+const RUNTIME_ID = "virtual:lit-hmr-runtime";
+const RUNTIME_FILE = siblingFile("runtime");
 
-        // Re-render all existing instances
-        console.log('[lit-hmr] Hot updating <' + tagName + '>', existing.instances.size, 'instances');
+// The inspector overlay, added to the page by the `inspector` option
+const INSPECTOR_ID = "virtual:lit-hmr-inspector";
+const INSPECTOR_FILE = siblingFile("inspector");
 
-        const oldProto = existing.proxyClass.prototype;
-        const newProto = ElementClass.prototype;
+/**
+ * The browser-side module `name` next to this file: built from src/ into
+ * dist/, or the TypeScript source when the plugin itself runs from src/
+ * (the tests). Vite compiles the source and resolves its imports.
+ */
+function siblingFile(name: string): string {
+  const built = fileURLToPath(new URL(`./${name}.js`, import.meta.url));
+  return existsSync(built) ? built : built.replace(/\.js$/, ".ts");
+}
 
-        // Patch the prototype chain
-        for (const key of Reflect.ownKeys(newProto)) {
-          if (key === 'constructor') continue;
+// Vite serves `x.css?inline` (and the other style languages) as a module
+// exporting the stylesheet's text
+const INLINE_STYLESHEET_RE = /\.(?:css|less|sass|scss|styl|stylus|pcss|postcss|sss)\?(?:[^#]*&)?inline\b/;
+// Stylesheets imported `with { type: 'css' }` are loaded inline with this
+// query added; their module exports a `CSSStyleSheet` instead
+const SHEET_QUERY = "lit-hmr-sheet";
 
-          const desc = Object.getOwnPropertyDescriptor(newProto, key);
+function withSheetQuery(specifier: string): string {
+  const [path, query] = specifier.split("?", 2);
+  return `${path}?${query ? `${query}&` : ""}inline&${SHEET_QUERY}`;
+}
 
-          if (desc.get || desc.set) {
-            continue;
-          }
+/**
+ * State shared by the pre and post plugins of one setup.
+ */
+interface PluginState {
+  /**
+   * Ids of the modules the pre plugin transformed. Null when the post plugin
+   * is used on its own; it then recognizes them by the runtime import.
+   */
+  transformed: Set<string> | null;
+}
 
-          try {
-            Object.defineProperty(oldProto, key, desc);
-          } catch (err) {
-            console.warn('[lit-hmr] Failed to patch', key, err);
-          }
-        }
+/**
+ * Lit HMR for Vite: the pre plugin that rewrites element registrations and
+ * the post plugin that patches the compiled output, in order, sharing their
+ * options and state.
+ */
+export default function litHmrPlugins(options: PluginOptions = {}): Plugin[] {
+  const state: PluginState = { transformed: new Set() };
+  return [createPrePlugin(options, state), createPostPlugin(options, state)];
+}
+
+export function litHmr(options: PluginOptions = {}): Plugin {
+  return createPrePlugin(options, { transformed: new Set() });
+}
 
-        existing.instances.forEach((instance) => {
-          // Trigger an update/render if applicable
-          if (typeof instance.requestUpdate === 'function') {
-            instance.requestUpdate();
-          }
-        });
+export function litHmrPost(options: PluginOptions = {}): Plugin {
+  return createPostPlugin(options, { transformed: null });
+}
 
-        // Update the stored class reference
-        console.log('[lit-hmr] Updated class for <' + tagName + '>', existing.elementClass, '→', ElementClass);
-        existing.elementClass = ElementClass;
-      }
-    };
-    `;
+function createPrePlugin(options: PluginOptions, state: PluginState): Plugin {
+  let server: ViteDevServer;
+  let filter: ModuleFilter = createModuleFilter(options.include, options.exclude);
+  // Ids of modules that register elements, kept current by transform
+  const elementModules = new Set<string>();
+  // Ids of the modules each element module reads bindings of while it
+  // evaluates (see `eagerImports` in the analysis)
+  const eagerImports = new Map<string, Set<string>>();
+  // Registrations from the last transform of each element module, to compare
+  // edits against
+  const lastRegistrations = new Map<string, ElementRegistration[]>();
+  const lastControllers = new Map<string, ControllerClass[]>();
+  const onUnsupportedChange = options.onUnsupportedChange ?? "reload";
+  const recreateByDefault = options.recreateInstances ?? false;
+  const logLevel = options.logLevel ?? DEFAULT_LOG_LEVEL;
+  const log = (level: "error" | "warn" | "info" | "debug", message: string) => {
+    if (!server || !shouldLog(level, logLevel)) return;
+    const logger = server.config.logger;
+    const method = level === "debug" ? "info" : level;
+    logger[method](`[lit-hmr] ${message}`, { timestamp: true });
+  };
+  const relative = (id: string) =>
+    server && id.startsWith(server.config.root + "/") ? id.slice(server.config.root.length + 1) : id;
+
+  /**
+   * Make a template or style module accept its own updates: its exports
+   * become reassignable and each version registers them with the runtime,
+   * which rebinds the ones importers hold to the new values.
+   */
+  const transformShared = (code: string, id: string, s: MagicString) => {
+    if (!mayShareTemplates(code) || code.includes("import.meta.hot")) return;
+    const shared = analyzeSharedModule(code, id);
+    if (!shared) return;
+
+    const moduleUrl = JSON.stringify(id);
+    for (const start of shared.constDeclarations) {
+      s.overwrite(start, start + "const".length, "let");
+    }
+    if (shared.defaultExpression) {
+      const { start, end, statementEnd } = shared.defaultExpression;
+      s.overwrite(start, end, "let __litHmrDefault = ");
+      s.appendLeft(statementEnd, ";\nexport { __litHmrDefault as default };");
+    }
+
+    // Elements to re-render, as of this version; the graph is complete by
+    // the time an update is transformed
+    const mod = server?.moduleGraph.getModuleById(id);
+    const dependents = mod ? findElementDependents(mod, elementModules) : [];
+    // Otherwise the update invalidates the module, so its importers run again
+    const rebindable = mod ? canRebindExports(mod, elementModules, eagerImports) : true;
+    const bindings = shared.exports.map(
+      ({ exported, local }) =>
+        `${JSON.stringify(exported)}: [() => ${local}, (value) => { ${local} = value; }]`
+    );
+    s.prepend(`import * as __litHmr from ${JSON.stringify(RUNTIME_ID)};\n`);
+    s.append(`
+__litHmr.shared(${moduleUrl}, { ${bindings.join(", ")} }, ${JSON.stringify(dependents)}, ${rebindable});
+if (import.meta.hot) {
+  import.meta.hot.accept((newModule) => {
+    // Nothing to apply when the new version threw
+    if (newModule) __litHmr.updateShared(import.meta.hot, ${moduleUrl});
+  });
+}
+`);
+    log("debug", `transformed ${relative(id)}: template/style module, ${dependents.length} dependent element module(s)`);
+  };
 
   return {
     name: "vite-plugin-lit-hmr",
     enforce: "pre",
+    // HMR only exists on the dev server; builds must stay untouched
+    apply: "serve",
+
+    configResolved(config) {
+      filter = createModuleFilter(options.include, options.exclude, config.root);
+    },
 
     configureServer(_server) {
       server = _server;
+      // One line per hot update, as reported by the browser
+      server.ws.on("lit-hmr:update", (result: HmrUpdateResult) => {
+        const module = relative(result.moduleUrl);
+        if (result.reload) {
+          log("warn", `${module}: reloading, ${result.reload}`);
+          return;
+        }
+        // Rolled-back updates go to Vite's error overlay
+        for (const element of result.elements) {
+          if (!element.error) continue;
+          log("error", `${module}: ${element.error.message}`);
+          server.ws.send({
+            type: "error",
+            err: { ...element.error, id: result.moduleUrl, plugin: "vite-plugin-lit-hmr" },
+          });
+        }
+        const applied = result.elements.filter((element) => !element.error);
+        const updated = [
+          ...applied.map((element) => {
+            const recreated = element.recreated > 0 ? `, ${element.recreated} re-created` : "";
+            return `<${element.tagName}> (${element.instances} instance${element.instances === 1 ? "" : "s"}${recreated})`;
+          }),
+          ...result.controllers.map((name) => `controller ${name}`),
+        ];
+        if (updated.length === 0) return;
+        const failures = applied.reduce((count, element) => count + element.failures, 0);
+        if (failures > 0) {
+          log("warn", `${module}: hot updated ${updated.join(", ")}; ${failures} member(s) failed to patch, see the browser console`);
+        } else {
+          log("info", `${module}: hot updated ${updated.join(", ")}`);
+        }
+      });
+    },
+
+    resolveId(id) {
+      // The files themselves, rather than virtual ids, so their own imports
+      // resolve from src/
+      if (id === RUNTIME_ID) return RUNTIME_FILE;
+      if (id === INSPECTOR_ID) return INSPECTOR_FILE;
+      return null;
+    },
+
+    load(id) {
+      if (id === RUNTIME_FILE) {
+        // `configure` and `persistState` are the runtime's own exports, in
+        // scope in its module
+        const setup = [`configure(${JSON.stringify({ logLevel, recreateInstances: recreateByDefault })});`];
+        if (options.persistState) setup.push("if (import.meta.hot) persistState(import.meta.hot);");
+        return `${readFileSync(RUNTIME_FILE, "utf8")}\n${setup.join("\n")}\n`;
+      }
+      if (id === INSPECTOR_FILE) return readFileSync(INSPECTOR_FILE, "utf8");
+      return null;
     },
 
-    transform(code: string, id: string) {
-      // Skip node_modules (except for specific packages if needed)
-      if (id.includes("node_modules")) return null;
+    transformIndexHtml: {
+      // Before Vite's own hook, which resolves the import in the inline script
+      order: "pre",
+      handler() {
+        if (!options.inspector) return;
+        return [
+          {
+            tag: "script",
+            attrs: { type: "module" },
+            children: `import ${JSON.stringify(INSPECTOR_ID)};`,
+            injectTo: "body",
+          },
+        ];
+      },
+    },
 
-      // Only process files that look like they contain Lit elements
-      if (!isLitFile(code)) return null;
+    /**
+     * A changed module that can't accept updates itself (constants, helpers)
+     * is handed to the nearest element modules importing it. They re-execute,
+     * import the fresh bindings and re-render their instances.
+     */
+    async handleHotUpdate(ctx) {
+      const { modules, timestamp } = ctx;
+      if (modules.length === 0) return;
+      // Inline stylesheets are left to the post plugin
+      if (
+        modules.some(
+          (mod) => mod.type !== "js" || mod.isSelfAccepting || (mod.id !== null && INLINE_STYLESHEET_RE.test(mod.id))
+        )
+      ) {
+        return;
+      }
 
-      // Reset lastIndex since we test then use the regex
-      DEFINE_RE.lastIndex = 0;
-      DECORATOR_RE.lastIndex = 0;
+      // An excluded or disabled module that registers elements would run
+      // the browser's own define again, which throws
+      const code = await ctx.read();
+      const registers = (id: string) =>
+        !filter(id, code) && mayDefineElements(code) && (analyzeModule(code, id)?.registrations.length ?? 0) > 0;
+      const untransformed = modules.find((mod) => mod.id !== null && registers(mod.id));
+      if (untransformed) {
+        log("info", `${relative(untransformed.id!)} registers elements without lit-hmr, reloading`);
+        ctx.server.ws.send({ type: "full-reload", path: "*" });
+        return [];
+      }
+
+      const boundaries = findElementBoundaries(modules, elementModules);
+      if (!boundaries) return;
 
+      // Give the changed modules (and importers between them and the
+      // boundaries) a new HMR timestamp, so re-executed importers fetch them
+      const invalidated = new Set<ModuleNode>();
+      for (const mod of modules) {
+        ctx.server.moduleGraph.invalidateModule(mod, invalidated, timestamp, true);
+      }
+      return boundaries;
+    },
+
+    async transform(code: string, id: string, transformOptions?: { ssr?: boolean }) {
+      // Server-side modules (`ssrLoadModule`, @lit-labs/ssr) run as they are:
+      // Vite loads them again after an edit, and the runtime needs `window`
+      if (transformOptions?.ssr) return null;
+
+      elementModules.delete(id);
+      eagerImports.delete(id);
+      state.transformed?.delete(id);
+
+      if (id === RUNTIME_FILE || id === INSPECTOR_FILE) return null;
+      // include/exclude and lit-hmr-enable/disable pragmas
+      if (!filter(id, code)) return null;
+
+      // Stylesheets imported as `CSSStyleSheet`s load through an inline
+      // stylesheet module instead, which the post plugin makes hot-updatable
       const s = new MagicString(code);
-      let hasTransforms = false;
-      const tagNames: string[] = [];
+      const stylesheetImports = mayImportStylesheets(code) ? findStylesheetImports(code, id) ?? [] : [];
+      for (const { specifier, start, end } of stylesheetImports) {
+        s.overwrite(start, end, JSON.stringify(withSheetQuery(specifier)));
+      }
+      const output = () =>
+        s.hasChanged() ? { code: s.toString(), map: s.generateMap({ hires: true }) } : null;
+
+      // Only process files that look like they contain Lit elements or
+      // controllers, or that did before this edit; others may be template
+      // or style modules
+      const previous = lastRegistrations.get(id);
+      if (!mayDefineElements(code) && !mayDefineControllers(code) && !previous) {
+        transformShared(code, id, s);
+        return output();
+      }
 
-      // Extract local (relative) import bindings to pass as deps for HMR
-      // This enables patching controller/service instances on existing elements
-      const localImports: string[] = [];
-      const LOCAL_IMPORT_RE = /import\s+(?!type\b)(?:(\w+)\s*,?\s*)?(?:\{([^}]*)\})?\s*from\s*['"](\.[^'"]*)['"]/g;
-      let importMatch: RegExpExecArray | null;
-      while ((importMatch = LOCAL_IMPORT_RE.exec(code)) !== null) {
-        const [, defaultImport, namedImports] = importMatch;
-        if (defaultImport) localImports.push(defaultImport);
-        if (namedImports) {
-          for (const binding of namedImports.split(',')) {
-            const trimmed = binding.trim();
-            if (!trimmed || trimmed.startsWith('type ')) continue;
-            const asMatch = trimmed.match(/\S+\s+as\s+(\S+)/);
-            localImports.push(asMatch ? asMatch[1] : trimmed);
-          }
-        }
+      const analysis = analyzeModule(code, id);
+      if (!analysis) return output();
+      const isElementModule = analysis.registrations.length > 0;
+      if (isElementModule) {
+        elementModules.add(id);
+        lastRegistrations.set(id, analysis.registrations);
+        const resolved = await Promise.all(analysis.eagerImports.map((source) => this.resolve(source, id)));
+        eagerImports.set(id, new Set(resolved.flatMap((resolution) => (resolution ? [resolution.id] : []))));
+      } else {
+        lastRegistrations.delete(id);
       }
-      const depsArg = localImports.length > 0
-        ? `, {${localImports.join(', ')}}`
-        : '';
-
-      // Transform customElements.define('tag', Class) calls
-      let match: RegExpExecArray | null;
-      DEFINE_RE.lastIndex = 0;
-      while ((match = DEFINE_RE.exec(code)) !== null) {
-        const [fullMatch, _quote, tagName, className] = match;
-        const start = match.index;
-        const end = start + fullMatch.length;
-
-        tagNames.push(tagName);
-        s.overwrite(
-          start,
-          end,
-          `window.__litHmrDefine(${JSON.stringify(tagName)}, ${className}, ${JSON.stringify(id)}${depsArg})`
-        );
-        hasTransforms = true;
+      const previousControllers = lastControllers.get(id);
+      if (analysis.controllers.length > 0) {
+        lastControllers.set(id, analysis.controllers);
+      } else {
+        lastControllers.delete(id);
       }
 
-      // Transform @customElement('tag') decorators
-      // Strategy: Find the class after the decorator and inject registration code after it
-      DECORATOR_RE.lastIndex = 0;
-      const decoratorMatches: Array<{ tagName: string; decoratorEnd: number }> = [];
+      const changes = [
+        ...(previous ? findUnsupportedChanges(previous, analysis.registrations) : []),
+        ...(previousControllers ? findUnsupportedControllerChanges(previousControllers, analysis.controllers) : []),
+      ];
+      const recreates = (change: UnsupportedChange) =>
+        change.recreatable &&
+        (analysis.registrations.find((reg) => (reg.tagName ?? reg.tagExpr) === change.tag)?.recreate ??
+          recreateByDefault);
+      const recreated = new Set(changes.filter(recreates).map((change) => change.tag));
+      const unsupported = onUnsupportedChange !== "ignore"
+        ? changes.find((change) => !recreates(change))?.reason ?? null
+        : null;
+      // In reload mode the browser reports the reload once it happens
+      if (unsupported && onUnsupportedChange === "warn") {
+        log("warn", `${unsupported} (${relative(id)}), hot-swapped anyway`);
+      }
+      if (!isElementModule && analysis.controllers.length === 0 && !unsupported) {
+        transformShared(code, id, s);
+        return output();
+      }
 
-      while ((match = DECORATOR_RE.exec(code)) !== null) {
-        const [fullMatch, _quote, tagName] = match;
-        const start = match.index;
-        const end = start + fullMatch.length;
+      const moduleUrl = JSON.stringify(id);
 
-        tagNames.push(tagName);
-        decoratorMatches.push({ tagName, decoratorEnd: end });
+      // Local (relative) import bindings are passed as deps for HMR
+      // This enables patching controller/service instances on existing elements
+      const deps = analysis.localImports.length > 0
+        ? `{${analysis.localImports.join(', ')}}`
+        : null;
+
+      for (const reg of analysis.registrations) {
+        // The class argument, wrapped in the calls recording its defaults
+        // and whether this edit re-creates its instances
+        const recreate = recreated.has(reg.tagName ?? reg.tagExpr);
+        const wrapStart = (recreate ? "__litHmr.recreate(" : "") +
+          (reg.fields.length > 0 ? "__litHmr.defaults(" : "");
+        const wrapEnd = (reg.fields.length > 0 ? `, ${defaultsArg(reg.fields)})` : "") +
+          (recreate ? ")" : "");
+
+        if (reg.kind === "define") {
+          // customElements.define(tag, Class[, options])
+          //   → __litHmr.define(tag, Class, id, deps[, options])
+          s.overwrite(reg.start, reg.end, "__litHmr.define");
+          s.appendLeft(reg.classArgStart!, wrapStart);
+          s.appendLeft(reg.classArgEnd!, wrapEnd);
+          const extraArgs = deps !== null
+            ? `, ${moduleUrl}, ${deps}`
+            : reg.hasOptions ? `, ${moduleUrl}, undefined` : `, ${moduleUrl}`;
+          s.appendLeft(reg.classArgEnd!, extraArgs);
+          continue;
+        }
 
-        // Remove the decorator
-        s.overwrite(start, end, `/* @customElement('${tagName}') removed by lit-hmr */`);
-        hasTransforms = true;
+        // @customElement(tag): remove the decorator and register after the class
+        let className = reg.classExpr;
+        if (className === null) {
+          className = "__litHmrDefaultElement";
+          s.appendLeft(reg.nameAt!, ` ${className}`);
+        }
+        const decorator = code.slice(reg.start, reg.end).replace(/\*\//g, "*\\/");
+        s.overwrite(reg.start, reg.end, `/* ${decorator} removed by lit-hmr */`);
+        s.appendLeft(
+          reg.insertAt!,
+          `\n__litHmr.define(${reg.tagExpr}, ${wrapStart}${className}${wrapEnd}, ${moduleUrl}${deps !== null ? `, ${deps}` : ""});\n`
+        );
       }
 
-      // For each decorator, find the corresponding class and add registration after it
-      for (const { tagName, decoratorEnd } of decoratorMatches) {
-        // Find the class definition after the decorator
-        const afterDecorator = code.slice(decoratorEnd);
-        const classMatch = afterDecorator.match(/export\s+class\s+([a-zA-Z_$][\w$]*)/);
-
-        if (classMatch) {
-          const className = classMatch[1];
-          // Find the end of the class (look for the closing brace at the same indentation level)
-          // Simple approach: find the class, then inject code after the entire file is processed
-          // We'll append the registration at the end of the transform
-
-          // For now, append registration code after imports
-          const registrationCode = `\nwindow.__litHmrDefine(${JSON.stringify(tagName)}, ${className}, ${JSON.stringify(id)}${depsArg});\n`;
-
-          // Find a good insertion point: after the class definition
-          // Look for the class definition position
-          const classStart = decoratorEnd + afterDecorator.indexOf(classMatch[0]);
-
-          // Find the end of the class by looking for its closing brace
-          // This is a simplified approach - find the class body
-          const classBodyStart = code.indexOf('{', classStart);
-          if (classBodyStart !== -1) {
-            let braceCount = 1;
-            let pos = classBodyStart + 1;
-            while (pos < code.length && braceCount > 0) {
-              if (code[pos] === '{') braceCount++;
-              if (code[pos] === '}') braceCount--;
-              pos++;
-            }
-
-            if (braceCount === 0) {
-              // Found the end of the class, insert registration after it
-              s.appendLeft(pos, registrationCode);
-            }
-          }
-        }
+      for (const controller of analysis.controllers) {
+        s.appendLeft(
+          controller.insertAt,
+          `\n__litHmr.controller(${controller.className}, ${moduleUrl});\n`
+        );
       }
 
-      if (!hasTransforms) return null;
-
-      // Get all properties and state decorator fields and its value to potentially patch
-      // Empty line means the end of the code
-      const propsAndState: Array<{ type: "string" | "number" | "bigint" | "boolean" | "symbol" | "undefined" | "object" | "function"; name: string; value: unknown }> = [];
-      const PROP_RE = /@property\(\s*(?:\{[^}]*\}\s*)?\)\s*(?:public|private|protected)?\s*(?:accessor\s+)?([a-zA-Z_$][\w$]*)/g;
-      const STATE_RE = /@state\(\s*(?:\{[^}]*\}\s*)?\)\s*(?:public|private|protected)?\s*(?:accessor\s+)?([a-zA-Z_$][\w$]*)/g;
-
-      let propMatch: RegExpExecArray | null;
-      PROP_RE.lastIndex = 0;
-      while ((propMatch = PROP_RE.exec(code)) !== null) {
-        const [, propName] = propMatch;
-        // get the value, new line or semicolon ends the value
-        const valueMatch = code.slice(propMatch.index).match(new RegExp(`@property\\(\\s*(?:\\{[^}]*\\}\\s*)?\\)\\s*(?:public|private|protected)?\\s*(?:accessor\\s+)?${propName}\\s*=\\s*([^;\\n]+)`));
-        let value: unknown = undefined;
-        if (valueMatch) {
-          try {
-            value = eval(valueMatch[1]);
-          } catch (e) {
-            console.warn(`[lit-hmr] Failed to evaluate value for property ${propName}: ${e}`);
-          }
-        }
-        propsAndState.push({ type: typeof value, name: propName, value });
+      // Classes defined on scoped registries are proxied as this module's
+      for (const scoped of analysis.scopedClasses) {
+        s.prependRight(scoped.start, "__litHmr.scoped(");
+        s.appendLeft(scoped.end, `, ${moduleUrl})`);
       }
 
-      let stateMatch: RegExpExecArray | null;
-      STATE_RE.lastIndex = 0;
-      while ((stateMatch = STATE_RE.exec(code)) !== null) {
-        const [, stateName] = stateMatch;
-        // get the value, new line or semicolon ends the value
-        const valueMatch = code.slice(stateMatch.index).match(new RegExp(`@state\\(\\s*(?:\\{[^}]*\\}\\s*)?\\)\\s*(?:public|private|protected)?\\s*(?:accessor\\s+)?${stateName}\\s*=\\s*([^;\\n]+)`));
-        let value: unknown = undefined;
-        if (valueMatch) {
-          try {
-            value = eval(valueMatch[1]);
-          } catch (e) {
-            console.warn(`[lit-hmr] Failed to evaluate value for state ${stateName}: ${e}`);
-          }
-        }
-        propsAndState.push({ type: typeof value, name: stateName, value });
+      // Guarded defines must run again when the module is re-executed
+      for (const guard of analysis.guards) {
+        s.overwrite(guard.start, guard.end, `((tagName) => __litHmr.get(tagName, ${moduleUrl}))`);
       }
 
-      if (propsAndState.length > 0) {
-        console.log(`[lit-hmr] Detected @property/@state fields in ${id}:`, propsAndState);
+      // Read by the runtime and by the previous version's accept handler
+      if (unsupported && onUnsupportedChange === "reload") {
+        s.prepend(`__litHmr.requestReload(${JSON.stringify(unsupported)}, ${moduleUrl});\n`);
+      } else if (unsupported) {
+        s.prepend(
+          `__litHmr.log("warn", ${JSON.stringify(`[lit-hmr] ${unsupported}; hot-swapped anyway, reload the page to apply it fully`)});\n`
+        );
       }
 
-      // Prepend the HMR runtime (idempotent, checks for existing)
-      s.prepend(HMR_RUNTIME(propsAndState) + "\n");
+      s.prepend(`import * as __litHmr from ${JSON.stringify(RUNTIME_ID)};\n`);
+      state.transformed?.add(id);
+      log(
+        "debug",
+        `transformed ${relative(id)}: ${analysis.registrations.length} element(s), ${analysis.controllers.length} controller(s)`
+      );
+
+      if (!isElementModule) {
+        // Controller modules are their own HMR boundary when that doesn't
+        // leave importers with stale bindings
+        if (analysis.onlyExportsControllers) {
+          s.append(`
+if (import.meta.hot) {
+  import.meta.hot.accept(() => {
+    const reason = __litHmr.takeReloadReason();
+    if (reason) {
+      // Hosts construct the old controllers; the element modules importing
+      // this one run again and pass the reason on to a reload
+      __litHmr.requestReload(reason);
+      import.meta.hot.invalidate('[lit-hmr] ' + reason);
+      return;
+    }
+    __litHmr.report(import.meta.hot, ${moduleUrl});
+  });
+}
+`);
+        }
+        return {
+          code: s.toString(),
+          map: s.generateMap({ hires: true }),
+        };
+      }
 
       // Append HMR accept code
       const hmrCode = `
-            if (import.meta.hot) {
-              import.meta.hot.accept((newModule) => {
-                // The new module's top-level code has already run,
-                // which called __litHmrDefine with the updated class.
-                if (window.__LIT_HMR_NEEDS_RELOAD__) {
-                  var reason = window.__LIT_HMR_RELOAD_REASON__;
-                  window.__LIT_HMR_NEEDS_RELOAD__ = false;
-                  window.__LIT_HMR_RELOAD_REASON__ = '';
-                  console.warn('[HMR] invalidate HMR', reason);
-                  // import.meta.hot.invalidate(reason);
-                } else {
-                  console.log('[lit-hmr] Module accepted: ${id}');
-                }
-              });
-            }
-      `;
+if (import.meta.hot) {
+  import.meta.hot.accept((newModule) => {
+    // Vite still calls this when the new version threw
+    if (!newModule) {
+      __litHmr.rollback(import.meta.hot, ${moduleUrl});
+      return;
+    }
+    // The new module's top-level code has already run,
+    // which called __litHmr.define with the updated class.
+    const reason = __litHmr.takeReloadReason();
+    __litHmr.report(import.meta.hot, ${moduleUrl}, reason);
+    if (reason) {
+      import.meta.hot.invalidate('[lit-hmr] ' + reason);
+    }
+  });
+}
+`;
 
       s.append(hmrCode);
 
@@ -336,96 +583,126 @@ export function litHmr(options: PluginOptions = {}): Plugin {
   };
 }
 
-export function litHmrPost(options: PluginOptions = {}): Plugin {
+function createPostPlugin(options: PluginOptions, state: PluginState): Plugin {
   let server: ViteDevServer;
+  // Stylesheets go through include/exclude and the pragmas as well
+  let stylesheetFilter: ModuleFilter = createModuleFilter(
+    options.include ?? DEFAULT_STYLESHEET_INCLUDE,
+    options.exclude
+  );
+  // Ids of the inline stylesheet modules made to accept their own updates
+  const stylesheets = new Set<string>();
+  // Ids of transformed modules that register elements
+  const elementModules = new Set<string>();
 
-  // Updating properties and state on existing instances requires patching
-  const HMR_POST_RUNTIME = (name: string) => `
-    // Patch __privateGet and __privateSet to handle Lit HMR
-    function patchPrivateAccessors() {
-        const tagName = ${JSON.stringify(name)};
-        console.log('[lit-hmr] Patching private accessors for <' + tagName + '>');
-        const existing = window.__LIT_HMR_REGISTRY__.get(tagName);
-        console.log('[lit-hmr] Found registry entry:', existing);
-        if (existing) {
-          const proxyClass = existing.proxyClass;
-          // Patch the prototype chain
-          for (const key of Object.getOwnPropertyNames(existing.elementClass.prototype)) {
-            if (key === 'constructor') continue;
-
-            const desc = Object.getOwnPropertyDescriptor(existing.elementClass.prototype, key);
-            if (desc.get || desc.set) {
-              const propInfo = window.__propsAndState__.find(p => p.name === key);
-              if (propInfo) {
-                console.log('[lit-hmr] Patching accessor', key, 'type:', propInfo.type, existing.elementClass.prototype[key], '→', propInfo.value);
-                existing.instances.forEach((instance) => {
-                  // Trigger an update/render if applicable
-                  if (typeof instance.requestUpdate === 'function') {
-                    // Patch the property value to trigger the setter
-                    try {
-                      instance[key] = propInfo.value;
-                    } catch (e) {
-                      console.warn('[lit-hmr] Failed to patch property', key, e);
-                    }
-                    instance.requestUpdate();
-                  }
-                });
-              }
-            }
-          }
-        }
-      }
+  /**
+   * Register an inline stylesheet module's text (or its `CSSStyleSheet`)
+   * with the runtime, which swaps edits into the sheets built from it.
+   */
+  const transformStylesheet = (code: string, id: string) => {
+    // Vite's own output in dev: the text as a JSON string
+    const match = /^export default ("(?:[^"\\]|\\.)*");?\s*$/.exec(code);
+    if (!match) return null;
+    if (!stylesheetFilter(id, JSON.parse(match[1]))) {
+      stylesheets.delete(id);
+      // Its importer was rewritten to expect a `CSSStyleSheet`
+      if (!id.includes(SHEET_QUERY)) return null;
+      return {
+        code: `const sheet = new CSSStyleSheet();\nsheet.replaceSync(${match[1]});\nexport default sheet;\n`,
+        map: { mappings: "" as const },
+      };
+    }
 
-      patchPrivateAccessors();
-  `;
+    const moduleUrl = JSON.stringify(id);
+    const register = id.includes(SHEET_QUERY) ? "__litHmr.sheet" : "__litHmr.stylesheet";
+    stylesheets.add(id);
+    return {
+      code: `import * as __litHmr from ${JSON.stringify(RUNTIME_ID)};
+export default ${register}(${moduleUrl}, ${match[1]});
+if (import.meta.hot) {
+  import.meta.hot.accept((newModule) => {
+    if (newModule) __litHmr.updateStylesheet(import.meta.hot, ${moduleUrl});
+  });
+}
+`,
+      map: { mappings: "" as const },
+    };
+  };
 
   return {
     name: "vite-plugin-lit-hmr-post",
     enforce: "post",
+    // Private members are only renamed and re-keyed, and stylesheets only
+    // swapped, on the dev server
+    apply: "serve",
+
+    configResolved(config) {
+      stylesheetFilter = createModuleFilter(options.include ?? DEFAULT_STYLESHEET_INCLUDE, options.exclude, config.root);
+    },
 
     configureServer(_server) {
       server = _server;
     },
 
-    transform(code: string, id: string) {
-      // Skip node_modules (except for specific packages if needed)
-      if (id.includes("node_modules")) return null;
-
-      // Only process files that look like they contain Lit elements
-      if (!isLitFile(code)) return null;
+    /**
+     * Vite's CSS plugins mark inline stylesheet modules as not accepting
+     * updates, which would re-execute the element modules importing them.
+     * A sheet is updated in place wherever it is adopted; text only where
+     * elements use it, so other importers keep Vite's handling.
+     */
+    async handleHotUpdate(ctx) {
+      for (const mod of ctx.modules) {
+        if (mod.id === null || !stylesheets.has(mod.id)) continue;
+        // The edit may have added a lit-hmr-disable pragma
+        if (!stylesheetFilter(mod.id, await ctx.read())) {
+          stylesheets.delete(mod.id);
+          continue;
+        }
+        const inPlace =
+          mod.id.includes(SHEET_QUERY) ||
+          [...mod.importers].every((importer) => importer.id !== null && elementModules.has(importer.id));
+        if (!inPlace) continue;
+        // Vite 6 passes a read-only view of the client environment's module
+        const node = ctx.server.environments?.client.moduleGraph.getModuleById(mod.id) ?? mod;
+        (node as { isSelfAccepting?: boolean }).isSelfAccepting = true;
+      }
+    },
 
-      const s = new MagicString(code);
-      let hasTransforms = false;
-      // Override var __accessCheck = (obj, member, msg) => member.has(obj) || __typeError("Cannot " + msg);
-      // To always return true
-      const ACCESS_CHECK_RE = /var\s+__accessCheck\s*=\s*\(obj,\s*member,\s*msg\)\s*=>\s*member\.has\(obj\)\s*\|\|\s*__typeError\("Cannot\s+"\s*\+\s*msg\);/;
-      if (ACCESS_CHECK_RE.test(code)) {
-        s.overwrite(
-          code.match(ACCESS_CHECK_RE)!.index!,
-          code.match(ACCESS_CHECK_RE)!.index! + code.match(ACCESS_CHECK_RE)![0].length,
-          'var __accessCheck = (obj, member, msg) => true; // patched by lit-hmr'
-        );
-        hasTransforms = true;
+    transform(code: string, id: string, transformOptions?: { ssr?: boolean }) {
+      // The pre plugin leaves server-side modules alone
+      if (transformOptions?.ssr) return null;
+      if (id === RUNTIME_FILE || id === INSPECTOR_FILE) return null;
+      if (INLINE_STYLESHEET_RE.test(id)) return transformStylesheet(code, id);
+
+      // Only modules the pre plugin transformed, which already applied
+      // include/exclude and the pragmas
+      const transformed = state.transformed ? state.transformed.has(id) : code.includes(RUNTIME_ID);
+      if (transformed && code.includes("__litHmr.define(")) {
+        elementModules.add(id);
+      } else {
+        elementModules.delete(id);
       }
+      if (!transformed) return null;
 
+      const privateState = mayUsePrivateState(code) ? findPrivateState(code) : null;
+      if (!privateState) return null;
+      if (privateState.privateNames.length === 0 && privateState.stores.length === 0) return null;
 
-      // Find tag name `window.__litHmrDefine('tag-name', ClassName, ...)` calls to know which elements to patch
-      const LIT_HMR_DEFINE_RE = /window\.__litHmrDefine\(\s*(['"`])([^'"`]+)\1\s*,\s*([a-zA-Z_$][\w$]*)\s*,\s*([^,]+)(?:,[^)]+)?\s*\)/g;
-      const tagNames: string[] = [];
-      let match: RegExpExecArray | null;
-      LIT_HMR_DEFINE_RE.lastIndex = 0;
-      while ((match = LIT_HMR_DEFINE_RE.exec(code)) !== null) {
-        const [, _quote, tagName] = match;
-        tagNames.push(tagName);
-      }
-      
-      // Append the post runtime for each tag name
-      for (const tagName of tagNames) {
-        s.append(HMR_POST_RUNTIME(tagName) + "\n");
-        hasTransforms = true;
+      const s = new MagicString(code);
+      const moduleUrl = JSON.stringify(id);
+
+      // Native private names are created per class evaluation; a method
+      // copied from a new version couldn't read them on existing instances.
+      // In dev they become plain (stable) names.
+      for (const name of privateState.privateNames) {
+        s.overwrite(name.start, name.end, name.replacement);
       }
 
-      if (!hasTransforms) return null;
+      // Lowered private members keep using the first version's storage
+      for (const store of privateState.stores) {
+        s.prependLeft(store.start, `__litHmr.privateStore(${moduleUrl}, ${JSON.stringify(store.key)}, `);
+        s.appendRight(store.end, ")");
+      }
 
       return {
         code: s.toString(),
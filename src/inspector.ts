@@ -0,0 +1,213 @@
+/**
+ * The HMR inspector, served to the browser as `virtual:lit-hmr-inspector`
+ * and added to the page when the `inspector` option is set.
+ *
+ * It lists every element in the runtime's registry with its module, live
+ * instances and update history, and outlines a tag's instances on the page
+ * while its row is hovered. It is registered directly, not through the
+ * runtime, so it doesn't list itself.
+ */
+import { LitElement, css, html, nothing } from "lit";
+import type { ElementRecord } from "./runtime";
+
+const TAG_NAME = "lit-hmr-inspector";
+
+// Module ids are absolute paths; the tail is enough to tell them apart
+function shortPath(moduleUrl: string): string {
+  return moduleUrl.split("/").slice(-2).join("/");
+}
+
+class LitHmrInspector extends LitElement {
+  static properties = {
+    open: { type: Boolean, reflect: true },
+    hovered: { state: true },
+  };
+
+  static styles = css`
+    :host {
+      position: fixed;
+      right: 8px;
+      bottom: 8px;
+      z-index: 2147483647;
+      font: 12px/1.4 ui-monospace, monospace;
+      color: #e5e7eb;
+    }
+    button {
+      font: inherit;
+      color: inherit;
+      background: #1f2937;
+      border: 1px solid #4b5563;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    .panel {
+      max-width: min(900px, calc(100vw - 16px));
+      max-height: 50vh;
+      overflow: auto;
+      background: #111827ee;
+      border: 1px solid #4b5563;
+      border-radius: 6px;
+    }
+    header {
+      display: flex;
+      gap: 8px;
+      padding: 4px 8px;
+      border-bottom: 1px solid #4b5563;
+    }
+    table {
+      border-collapse: collapse;
+    }
+    th,
+    td {
+      padding: 2px 8px;
+      text-align: left;
+      vertical-align: top;
+    }
+    tbody tr:hover {
+      background: #374151;
+    }
+    header span {
+      flex: 1;
+    }
+    .muted {
+      color: #9ca3af;
+    }
+    .failure {
+      color: #f87171;
+    }
+    .highlight {
+      position: fixed;
+      pointer-events: none;
+      outline: 2px solid #3b82f6;
+      background: #3b82f633;
+    }
+  `;
+
+  declare open: boolean;
+  /** Element whose instances are outlined */
+  declare hovered: ElementRecord | null;
+
+  private timer: number | undefined;
+
+  constructor() {
+    super();
+    this.open = false;
+    this.hovered = null;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener("lit-hmr:after-update", this.refresh);
+    // Instances come and go without an update
+    this.timer = window.setInterval(this.refresh, 1000);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener("lit-hmr:after-update", this.refresh);
+    window.clearInterval(this.timer);
+  }
+
+  private refresh = () => {
+    if (this.open) this.requestUpdate();
+  };
+
+  render() {
+    if (!this.open) {
+      return html`<button title="Lit HMR inspector" @click=${() => (this.open = true)}>HMR</button>`;
+    }
+    const registries = [...(window.__LIT_HMR_REGISTRY__?.entries() ?? [])];
+    // Scoped registries are numbered in the order they were first used
+    const records = registries.flatMap(([registry, byTag], index) =>
+      [...byTag.values()].map((record) => ({
+        record,
+        scope: registry === window.customElements ? "global" : `scoped #${index}`,
+      }))
+    );
+    return html`
+      <div class="panel">
+        <header>
+          <span>Lit HMR · ${records.length} elements</span>
+          <button
+            title="Look for untracked instances in shadow roots and iframes"
+            @click=${() => {
+              window.__LIT_HMR_SCAN__?.();
+              this.requestUpdate();
+            }}
+          >
+            Scan
+          </button>
+          <button
+            title="Close"
+            @click=${() => {
+              this.open = false;
+              this.hovered = null;
+            }}
+          >
+            ×
+          </button>
+        </header>
+        <table>
+          <thead>
+            <tr>
+              <th>Tag</th>
+              <th>Registry</th>
+              <th>Module</th>
+              <th>Instances</th>
+              <th>Updates</th>
+              <th>Last update</th>
+              <th>Last patch</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${records.map(({ record, scope }) => this.renderRow(record, scope))}
+          </tbody>
+        </table>
+      </div>
+      ${this.hovered ? this.renderHighlights(this.hovered) : nothing}
+    `;
+  }
+
+  private renderRow(record: ElementRecord, scope: string) {
+    const report = record.lastReport;
+    const instances = [...record.instances];
+    const connected = instances.filter((instance) => instance.isConnected).length;
+    return html`
+      <tr
+        @mouseenter=${() => (this.hovered = record)}
+        @mouseleave=${() => (this.hovered = null)}
+      >
+        <td>&lt;${record.tagName}&gt;</td>
+        <td>${scope}</td>
+        <td title=${record.moduleUrl}>${shortPath(record.moduleUrl)}</td>
+        <td>
+          ${connected}
+          ${connected < instances.length
+            ? html`<span class="muted">+${instances.length - connected} disconnected</span>`
+            : nothing}
+        </td>
+        <td>${record.updates}</td>
+        <td>${record.lastUpdate === null ? "–" : new Date(record.lastUpdate).toLocaleTimeString()}</td>
+        <td>
+          ${report === null ? "–" : report.patched.join(", ") || "nothing changed"}
+          ${report?.failures.map((failure) => html`<div class="failure">${failure}</div>`)}
+        </td>
+      </tr>
+    `;
+  }
+
+  private renderHighlights(record: ElementRecord) {
+    return [...record.instances]
+      .filter((instance) => instance.isConnected)
+      .map((instance) => {
+        const rect = instance.getBoundingClientRect();
+        const style = `left: ${rect.left}px; top: ${rect.top}px; width: ${rect.width}px; height: ${rect.height}px`;
+        return html`<div class="highlight" style=${style}></div>`;
+      });
+  }
+}
+
+if (!customElements.get(TAG_NAME)) {
+  customElements.define(TAG_NAME, LitHmrInspector);
+  document.body.append(document.createElement(TAG_NAME));
+}
@@ -0,0 +1,21 @@
+/**
+ * Log levels shared by the plugin (dev server terminal) and the runtime
+ * (browser console). A message is printed when its level is at or below the
+ * configured one.
+ */
+
+export type LogLevel = "silent" | "error" | "warn" | "info" | "debug";
+
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+};
+
+export const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+export function shouldLog(level: Exclude<LogLevel, "silent">, threshold: LogLevel): boolean {
+  return LOG_LEVELS[level] <= LOG_LEVELS[threshold];
+}
@@ -0,0 +1,1958 @@
+/**
+ * The HMR runtime, served to the browser as `virtual:lit-hmr-runtime` and
+ * imported by every transformed module.
+ *
+ * It maintains the registry and handles hot-swapping. State lives on
+ * `window`, so it survives the runtime module itself being instantiated
+ * more than once.
+ */
+
+import { DEFAULT_LOG_LEVEL, shouldLog, type LogLevel } from "./log";
+
+/** Reactive property options, as Lit keeps them in `elementProperties` */
+type PropertyOptions = Record<string, unknown>;
+
+type StyleLike = CSSStyleSheet | { styleSheet?: CSSStyleSheet; cssText: string };
+
+interface ReactiveControllerLike {
+  constructor: Function;
+}
+
+/** The parts of a Lit element instance the runtime relies on */
+interface LitInstance extends HTMLElement {
+  renderRoot?: HTMLElement | ShadowRoot;
+  requestUpdate?(name?: PropertyKey, oldValue?: unknown, options?: PropertyOptions): void;
+  attributeChangedCallback?(name: string, oldValue: string | null, value: string | null): void;
+  addController?(controller: ReactiveControllerLike): void;
+  removeController?(controller: ReactiveControllerLike): void;
+  connectedCallback?(): void;
+  disconnectedCallback?(): void;
+  isUpdatePending?: boolean;
+  performUpdate?(): void;
+  updateComplete?: Promise<boolean>;
+  hotReplaced?(oldClass: LitElementClass, newClass: LitElementClass): void;
+  [key: string]: unknown;
+}
+
+/** The parts of Lit's `ReactiveElement` class the runtime relies on */
+interface LitElementClass {
+  new (): LitInstance;
+  readonly name: string;
+  prototype: LitInstance;
+  finalized?: boolean;
+  finalize?(): void;
+  elementProperties?: Map<PropertyKey, PropertyOptions>;
+  createProperty?(name: PropertyKey, options: PropertyOptions): void;
+  styles?: unknown;
+  elementStyles?: StyleLike[];
+  finalizeStyles?(styles: unknown): StyleLike[];
+  observedAttributes?: string[];
+  hmrAccept?: boolean | ((oldClass: LitElementClass, newClass: LitElementClass) => boolean);
+  /** Per-element opt-in (or out) of instance re-creation */
+  hmrRecreate?: boolean;
+  /** Scoped registry definitions, as used by `ScopedRegistryHost` */
+  elementDefinitions?: Record<string, LitElementClass>;
+}
+
+/** A shadow root with a scoped registry (the scoped custom element registry polyfill) */
+interface ScopedShadowRoot extends ShadowRoot {
+  customElements: CustomElementRegistry;
+  createElement(tagName: string): Element;
+}
+
+/**
+ * Element hooks. Instances of the updated element and of registered
+ * subclasses get `hotReplaced` once the new version is in place, to tear
+ * down and rebuild subscriptions, timers or third-party widgets. A static
+ * `hmrAccept` on the new version (or a function returning it) set to false
+ * declines the update, which then reloads the page like an unsupported
+ * change.
+ */
+export interface HmrHooks {
+  hotReplaced?(oldClass: Function, newClass: Function): void;
+}
+
+export interface HmrAcceptingClass {
+  hmrAccept?: boolean | ((oldClass: Function, newClass: Function) => boolean);
+}
+
+/**
+ * Detail of the `lit-hmr:before-update` and `lit-hmr:after-update` events,
+ * dispatched on `window` and on each instance of the updated element and of
+ * registered subclasses.
+ */
+export interface HmrUpdateDetail {
+  tagName: string;
+  moduleUrl: string;
+}
+
+type ControllerClass = { readonly name: string; prototype: object };
+
+/** What an update changed, kept per element for the inspector */
+export interface UpdateReport {
+  /** Members, styles, reactive property declarations and defaults that changed */
+  patched: string[];
+  /** Members that couldn't be patched, with the error */
+  failures: string[];
+}
+
+/**
+ * Sent to the dev server after each hot update of a module, which prints it
+ * as one line.
+ */
+export interface HmrUpdateResult {
+  moduleUrl: string;
+  /** Updated tags, with the instances re-rendered or re-created (including registered subclasses) */
+  elements: {
+    tagName: string;
+    instances: number;
+    recreated: number;
+    failures: number;
+    /** Why the update was rolled back, if it was */
+    error: { message: string; stack: string } | null;
+  }[];
+  /** Updated controller classes */
+  controllers: string[];
+  /** Why the module falls back to a reload, if it does */
+  reload: string | null;
+}
+
+/** The parts of Vite's `import.meta.hot` the runtime uses */
+interface HotContextLike {
+  send(event: string, data?: unknown): void;
+  invalidate(message?: string): void;
+}
+
+/** Arguments of an `addEventListener` call */
+type ListenerEntry = [string, EventListenerOrEventListenerObject, boolean | AddEventListenerOptions | undefined];
+
+export interface FieldDefault {
+  /** Source text of the initializer */
+  initializer: string | null;
+  /** Evaluates the initializer in its module's scope */
+  evaluate: (() => unknown) | null;
+  /** The default as JSON, when it is plain data; undefined until the thunk has run */
+  json: string | null | undefined;
+}
+
+/** [name, initializer source, thunk or null, static JSON or null] */
+export type FieldEntry = [string, string | null, (() => unknown) | null, string | null];
+
+export interface ElementRecord {
+  /** `window.customElements` or a scoped registry */
+  registry: CustomElementRegistry;
+  tagName: string;
+  /** The module defining it; for scoped defines, the one that marked the class */
+  moduleUrl: string;
+  /** Latest version of the class */
+  elementClass: LitElementClass;
+  /** First version of the class, which the proxy extends */
+  baseClass: LitElementClass;
+  proxyClass: LitElementClass;
+  /** Instances built by the proxy, connected or not, until they are collected */
+  instances: InstanceSet;
+  defaults: Map<string, FieldDefault>;
+  /** Defaults of the first version, whose field initializers the proxy runs */
+  baseDefaults: Map<string, FieldDefault>;
+  /** What the browser read at define time */
+  observedAttributes: Set<string>;
+  /** Attributes added by updates, observed with a MutationObserver */
+  extraAttributes: string[];
+  /** Original accessors of reactive properties whose options changed */
+  accessors: Map<PropertyKey, PropertyDescriptor>;
+  attributeObservers: WeakMap<LitInstance, MutationObserver>;
+  /** Set once instances were re-created; new ones are then built by the latest class too */
+  constructLatest: boolean;
+  /** Hot updates applied so far, and when the last one was (ms since epoch) */
+  updates: number;
+  lastUpdate: number | null;
+  lastReport: UpdateReport | null;
+}
+
+/**
+ * A set of element instances that doesn't keep them alive. Instances stay in
+ * it while disconnected, so one moved to another place in the DOM still gets
+ * updates, and drop out once garbage-collected.
+ */
+export class InstanceSet {
+  private refs = new Set<WeakRef<LitInstance>>();
+  private byInstance = new WeakMap<LitInstance, WeakRef<LitInstance>>();
+  private finalizer = new FinalizationRegistry<WeakRef<LitInstance>>((ref) => this.refs.delete(ref));
+
+  /** Returns false when the instance was already tracked */
+  add(instance: LitInstance): boolean {
+    if (this.byInstance.has(instance)) return false;
+    const ref = new WeakRef(instance);
+    this.refs.add(ref);
+    this.byInstance.set(instance, ref);
+    this.finalizer.register(instance, ref, ref);
+    return true;
+  }
+
+  delete(instance: LitInstance): boolean {
+    const ref = this.byInstance.get(instance);
+    if (!ref) return false;
+    this.refs.delete(ref);
+    this.byInstance.delete(instance);
+    this.finalizer.unregister(ref);
+    return true;
+  }
+
+  has(instance: LitInstance): boolean {
+    return this.byInstance.has(instance);
+  }
+
+  /** Instances not collected yet, connected or not */
+  get size(): number {
+    let size = 0;
+    for (const _ of this) size++;
+    return size;
+  }
+
+  *[Symbol.iterator](): IterableIterator<LitInstance> {
+    for (const ref of this.refs) {
+      const instance = ref.deref();
+      if (instance) yield instance;
+    }
+  }
+
+  forEach(callback: (instance: LitInstance) => void): void {
+    for (const instance of this) callback(instance);
+  }
+}
+
+/** One version's exports of a template or style module: getter and setter by export name */
+export type SharedBindings = Record<string, [() => unknown, (value: unknown) => void]>;
+
+export interface SharedModuleRecord {
+  /** Every version that ran, oldest first; importers hold earlier ones' bindings */
+  versions: SharedBindings[];
+  /** Element modules importing the module, as of its latest version */
+  dependents: string[];
+  /** Whether importers can be given the latest version's exports in place */
+  rebindable: boolean;
+}
+
+/** An inline stylesheet module: `x.css?inline`, or one imported `with { type: 'css' }` */
+export interface StylesheetRecord {
+  /** Text in live styles */
+  applied: string;
+  /** Text of the latest version that ran */
+  latest: string;
+  /** The sheet handed to `with { type: 'css' }` importers, the same across versions */
+  sheet: CSSStyleSheet | null;
+}
+
+export interface ControllerRecord {
+  name: string;
+  moduleUrl: string;
+  versions: ControllerClass[];
+}
+
+declare global {
+  interface Window {
+    /** Element records by registry and tag name */
+    __LIT_HMR_REGISTRY__: Map<CustomElementRegistry, Map<string, ElementRecord>>;
+    /** CustomElementRegistry.prototype.define before the runtime wrapped it */
+    __LIT_HMR_NATIVE_DEFINE__?: CustomElementRegistry["define"];
+    __LIT_HMR_CONTROLLERS__: Map<string, ControllerRecord>;
+    __LIT_HMR_HOST_CONTROLLERS__: WeakMap<LitInstance, Set<ReactiveControllerLike>>;
+    __LIT_HMR_DEFAULTS__: WeakMap<Function, Map<string, FieldDefault>>;
+    /** Modules of the classes transformed modules define on scoped registries */
+    __LIT_HMR_SCOPED__: WeakMap<Function, string>;
+    /** Lowered private member storage, by module and binding */
+    __LIT_HMR_PRIVATE_STORES__: Map<string, unknown>;
+    /** Classes whose instances are re-created when they replace the current version */
+    __LIT_HMR_RECREATE__: WeakSet<Function>;
+    /** Listeners added to element instances, for re-created instances */
+    __LIT_HMR_LISTENERS__: WeakMap<LitInstance, ListenerEntry[]>;
+    /** Updates applied since the updated module last reported */
+    __LIT_HMR_PENDING__: Pick<HmrUpdateResult, "elements" | "controllers">;
+    /** Steps undoing those updates, by module, in the order they were taken */
+    __LIT_HMR_UNDO__: Map<string, (() => void)[]>;
+    /** Template and style modules, by module */
+    __LIT_HMR_SHARED__: Map<string, SharedModuleRecord>;
+    /** Inline stylesheet modules, by module */
+    __LIT_HMR_STYLESHEETS__: Map<string, StylesheetRecord>;
+    /** Set by a module whose edit can't be hot-swapped */
+    __LIT_HMR_RELOAD_REASON__?: string;
+    /** Values saved before an HMR reload, by instance key, until the instance connects */
+    __LIT_HMR_SAVED_STATE__: Map<string, Record<string, unknown>>;
+    /** {@link scan}, for the console and the inspector */
+    __LIT_HMR_SCAN__: typeof scan;
+    ShadyCSS?: { nativeShadow: boolean };
+    litNonce?: string;
+  }
+
+  interface WindowEventMap {
+    "lit-hmr:before-update": CustomEvent<HmrUpdateDetail>;
+    "lit-hmr:after-update": CustomEvent<HmrUpdateDetail>;
+  }
+
+  interface HTMLElementEventMap {
+    "lit-hmr:before-update": CustomEvent<HmrUpdateDetail>;
+    "lit-hmr:after-update": CustomEvent<HmrUpdateDetail>;
+  }
+}
+
+window.__LIT_HMR_REGISTRY__ ??= new Map();
+window.__LIT_HMR_CONTROLLERS__ ??= new Map();
+window.__LIT_HMR_HOST_CONTROLLERS__ ??= new WeakMap();
+window.__LIT_HMR_DEFAULTS__ ??= new WeakMap();
+window.__LIT_HMR_SCOPED__ ??= new WeakMap();
+window.__LIT_HMR_PRIVATE_STORES__ ??= new Map();
+window.__LIT_HMR_RECREATE__ ??= new WeakSet();
+window.__LIT_HMR_LISTENERS__ ??= new WeakMap();
+window.__LIT_HMR_PENDING__ ??= { elements: [], controllers: [] };
+window.__LIT_HMR_UNDO__ ??= new Map();
+window.__LIT_HMR_SHARED__ ??= new Map();
+window.__LIT_HMR_STYLESHEETS__ ??= new Map();
+window.__LIT_HMR_SAVED_STATE__ ??= new Map();
+window.__LIT_HMR_SCAN__ = scan;
+
+let logLevel: LogLevel = DEFAULT_LOG_LEVEL;
+let recreateByDefault = false;
+
+/** Called by the plugin with its options when it serves the runtime */
+export function configure(options: { logLevel?: LogLevel; recreateInstances?: boolean }): void {
+  logLevel = options.logLevel ?? logLevel;
+  recreateByDefault = options.recreateInstances ?? recreateByDefault;
+}
+
+/** console.log/warn/error/debug, filtered by the `logLevel` option */
+export function log(level: Exclude<LogLevel, "silent">, ...args: unknown[]): void {
+  if (!shouldLog(level, logLevel)) return;
+  const method = level === "info" ? "log" : level;
+  console[method](...args);
+}
+
+// Defines on scoped registries are proxied like global ones. Only Lit
+// elements of transformed modules: other classes are passed through.
+if (!window.__LIT_HMR_NATIVE_DEFINE__ && typeof CustomElementRegistry !== "undefined") {
+  const nativeDefine = CustomElementRegistry.prototype.define;
+  window.__LIT_HMR_NATIVE_DEFINE__ = nativeDefine;
+  CustomElementRegistry.prototype.define = function (
+    this: CustomElementRegistry,
+    tagName: string,
+    constructor: CustomElementConstructor,
+    options?: ElementDefinitionOptions
+  ) {
+    const ElementClass = constructor as unknown as LitElementClass;
+    const moduleUrl = this !== window.customElements && typeof ElementClass.finalize === "function"
+      ? scopedModule(ElementClass)
+      : null;
+    if (moduleUrl === null) {
+      nativeDefine.call(this, tagName, constructor, options);
+      return;
+    }
+    defineScoped(this, tagName, ElementClass, moduleUrl, options);
+  };
+}
+
+/**
+ * Marks a class a transformed module defines on a scoped registry (an
+ * `elementDefinitions` entry or a `registry.define` argument), so the
+ * wrapped `define` proxies it. Returns the class.
+ */
+export function scoped<T>(ElementClass: T, moduleUrl: string): T {
+  if (typeof ElementClass === "function") window.__LIT_HMR_SCOPED__.set(ElementClass, moduleUrl);
+  return ElementClass;
+}
+
+// The module a scoped define of the class belongs to: the one that marked
+// it, or the one registering it globally. Null for other classes.
+function scopedModule(ElementClass: LitElementClass): string | null {
+  const marked = window.__LIT_HMR_SCOPED__.get(ElementClass);
+  if (marked !== undefined) return marked;
+  const registered = [...recordsOf(window.customElements).values()].find(
+    (record) => record.elementClass === ElementClass || record.baseClass === ElementClass
+  );
+  return registered?.moduleUrl ?? null;
+}
+
+/** Every element record, across registries */
+function allRecords(): ElementRecord[] {
+  return [...window.__LIT_HMR_REGISTRY__.values()].flatMap((records) => [...records.values()]);
+}
+
+function recordsOf(registry: CustomElementRegistry): Map<string, ElementRecord> {
+  let records = window.__LIT_HMR_REGISTRY__.get(registry);
+  if (!records) {
+    records = new Map();
+    window.__LIT_HMR_REGISTRY__.set(registry, records);
+  }
+  return records;
+}
+
+/**
+ * Register or update a Lit element.
+ * On first call: creates a proxy class and registers it with customElements.
+ * On subsequent calls: swaps the underlying class and re-renders instances.
+ */
+export function define(
+  tagName: string,
+  ElementClass: LitElementClass,
+  moduleUrl: string,
+  deps?: Record<string, unknown>,
+  options?: ElementDefinitionOptions
+): void {
+  defineIn(window.customElements, tagName, ElementClass, moduleUrl, deps, options);
+}
+
+/**
+ * A define on a scoped registry, intercepted. Earlier versions of the class
+ * live on in other registries when the code that creates the registry runs
+ * again (a re-executed module), so those are updated too.
+ */
+function defineScoped(
+  registry: CustomElementRegistry,
+  tagName: string,
+  ElementClass: LitElementClass,
+  moduleUrl: string,
+  options?: ElementDefinitionOptions
+): void {
+  updateScopedVersions(tagName, ElementClass, moduleUrl, registry);
+  defineIn(registry, tagName, ElementClass, moduleUrl, undefined, options);
+}
+
+/**
+ * Hot-update the scoped records of a tag that still run an older version of
+ * the class (defined by the same module), except in the given registry.
+ */
+function updateScopedVersions(
+  tagName: string,
+  ElementClass: LitElementClass,
+  moduleUrl: string,
+  except?: CustomElementRegistry
+): void {
+  for (const record of allRecords()) {
+    if (
+      record.registry !== window.customElements &&
+      record.registry !== except &&
+      record.tagName === tagName &&
+      record.moduleUrl === moduleUrl &&
+      record.elementClass !== ElementClass
+    ) {
+      updateRecord(record, ElementClass);
+    }
+  }
+}
+
+function defineIn(
+  registry: CustomElementRegistry,
+  tagName: string,
+  ElementClass: LitElementClass,
+  moduleUrl: string,
+  deps?: Record<string, unknown>,
+  options?: ElementDefinitionOptions
+): void {
+  const records = recordsOf(registry);
+  const existing = records.get(tagName);
+
+  if (!existing) {
+    // A module's first run isn't part of an update; a reason left over
+    // from one that never reloaded would hold back the next
+    if (!allRecords().some((record) => record.moduleUrl === moduleUrl)) {
+      window.__LIT_HMR_RELOAD_REASON__ = undefined;
+    }
+
+    // The proxy class extends the FIRST version of the element.
+    // On HMR updates, we patch its prototype chain.
+    class HmrProxyElement extends ElementClass {
+      constructor() {
+        // After a re-creation the latest class builds the instance, so its
+        // constructor and field initializers run. During an upgrade its
+        // HTMLElement constructor returns the element being upgraded.
+        if (record.constructLatest && record.elementClass !== ElementClass) {
+          const instance = Reflect.construct(record.elementClass, [], new.target) as HmrProxyElement;
+          track(record, instance);
+          return instance;
+        }
+        super();
+        track(record, this);
+        applyChangedDefaults(record, this);
+      }
+
+      // Track controllers so controller updates can find their hosts
+      addController(controller: ReactiveControllerLike) {
+        let controllers = window.__LIT_HMR_HOST_CONTROLLERS__.get(this);
+        if (!controllers) {
+          controllers = new Set();
+          window.__LIT_HMR_HOST_CONTROLLERS__.set(this, controllers);
+        }
+        controllers.add(controller);
+        super.addController?.(controller);
+      }
+
+      removeController(controller: ReactiveControllerLike) {
+        window.__LIT_HMR_HOST_CONTROLLERS__.get(this)?.delete(controller);
+        super.removeController?.(controller);
+      }
+
+      // Instances stay tracked while disconnected. One a re-creation
+      // replaced is dropped, and picked up again if it is put back.
+      connectedCallback() {
+        track(record, this);
+        restoreState(record, this);
+        super.connectedCallback?.();
+      }
+    }
+
+    const record: ElementRecord = {
+      registry,
+      tagName,
+      moduleUrl,
+      elementClass: ElementClass,
+      baseClass: ElementClass,
+      // Store reference to the proxy so we can patch it later
+      proxyClass: HmrProxyElement,
+      instances: new InstanceSet(),
+      defaults: window.__LIT_HMR_DEFAULTS__.get(ElementClass) ?? new Map(),
+      baseDefaults: window.__LIT_HMR_DEFAULTS__.get(ElementClass) ?? new Map(),
+      // The browser reads observedAttributes once, at define time
+      observedAttributes: new Set(HmrProxyElement.observedAttributes ?? []),
+      extraAttributes: [],
+      accessors: new Map(),
+      attributeObservers: new WeakMap(),
+      constructLatest: false,
+      updates: 0,
+      lastUpdate: null,
+      lastReport: null,
+    };
+    records.set(tagName, record);
+    if (ElementClass.hmrRecreate ?? recreateByDefault) recordListeners(record);
+
+    // Register with the real registry — this only happens once per registry
+    window.__LIT_HMR_NATIVE_DEFINE__!.call(registry, tagName, HmrProxyElement, options);
+    return;
+  }
+
+  // HMR update: swap the class
+  updateRecord(existing, ElementClass, deps);
+}
+
+function updateRecord(
+  existing: ElementRecord,
+  ElementClass: LitElementClass,
+  deps?: Record<string, unknown>
+): void {
+  const { tagName, moduleUrl } = existing;
+
+  // The change can't be hot-swapped; the module's accept handler
+  // invalidates it, so keep the current class until then
+  if (window.__LIT_HMR_RELOAD_REASON__) return;
+
+  const oldClass = existing.elementClass;
+  let accepted: boolean | undefined;
+  try {
+    const accept = ElementClass.hmrAccept;
+    accepted = typeof accept === "function" ? accept.call(ElementClass, oldClass, ElementClass) : accept;
+  } catch (err) {
+    log("error", "[lit-hmr] hmrAccept of <" + tagName + "> threw", err);
+    accepted = false;
+  }
+  if (accepted === false) {
+    requestReload(`<${tagName}> declined the update`);
+    return;
+  }
+
+  // The element and registered subclasses, which inherit the update
+  const targets = allRecords().filter(
+    (record) => record === existing || existing.baseClass.isPrototypeOf(record.proxyClass)
+  );
+  const detail: HmrUpdateDetail = { tagName, moduleUrl };
+  dispatchUpdate("lit-hmr:before-update", detail, targets);
+
+  log("debug", "[lit-hmr] Hot updating <" + tagName + ">", existing.instances.size, "instances");
+  const report: UpdateReport = { patched: [], failures: [] };
+
+  // Finalizing collects the new reactive property declarations
+  if (typeof ElementClass.finalize === "function") ElementClass.finalize();
+  const newProps = new Map(ElementClass.elementProperties ?? []);
+
+  // The element class and any edited base classes or mixins; the proxy and
+  // registered subclasses inherit the new members from there
+  const pairs = changedAncestry(existing.baseClass, ElementClass);
+  const affected = allRecords().filter((record) =>
+    pairs.some(([cls]) => cls.isPrototypeOf(record.proxyClass))
+  );
+  // The same element defined in other registries, with its own proxy
+  const copies = affected.filter(
+    (record) => record !== existing && record.baseClass === existing.baseClass
+  );
+
+  // From the version that opts in to re-creation on; kept on rollback
+  if (ElementClass.hmrRecreate ?? recreateByDefault) [existing, ...copies].forEach(recordListeners);
+
+  // Run in reverse to put the previous version back
+  const undo: (() => void)[] = [
+    () => {
+      swapStyles(affected);
+      rerender(affected, (instance) => instance.hotReplaced?.(ElementClass, oldClass));
+    },
+    ...[existing, ...copies].map(saveRecord),
+    ...pairs.map(([cls]) => saveClass(cls)),
+  ];
+
+  patchAncestry(pairs, newProps, report);
+
+  // Imported controllers may be newer than the ones attached to live hosts
+  for (const dep of Object.values(deps ?? {})) {
+    if (typeof dep !== "function" || !dep.prototype) continue;
+    const stale = new Set<ControllerClass>();
+    existing.instances.forEach((instance) => {
+      window.__LIT_HMR_HOST_CONTROLLERS__.get(instance)?.forEach((controller) => {
+        const ctor = controller.constructor;
+        if (ctor !== dep && ctor.name === dep.name) stale.add(ctor);
+      });
+    });
+    if (stale.size > 0) updateControllers([...stale], dep, report);
+  }
+
+  swapStyles(affected);
+  patchProperties(existing, newProps, report);
+  copies.forEach((record) => patchProperties(record, newProps, { patched: [], failures: [] }));
+  applyDefaults(existing, window.__LIT_HMR_DEFAULTS__.get(ElementClass) ?? new Map(), report, undo);
+
+  // Update the stored class reference
+  log("debug", "[lit-hmr] Updated class for <" + tagName + ">", oldClass, "→", ElementClass);
+  existing.elementClass = ElementClass;
+  for (const record of copies) {
+    record.elementClass = ElementClass;
+    record.defaults = existing.defaults;
+  }
+
+  // The edit changed how instances are constructed and the element opted
+  // in to re-creating them
+  const recreated = new Set<LitInstance>();
+  if (window.__LIT_HMR_RECREATE__.has(ElementClass)) {
+    for (const record of [existing, ...copies]) {
+      recreateInstances(record, report, undo).forEach((instance) => recreated.add(instance));
+    }
+  }
+
+  for (const record of affected) {
+    if (record !== existing) {
+      log("debug", "[lit-hmr] Hot updating subclass <" + record.tagName + ">", record.instances.size, "instances");
+    }
+  }
+  // Re-render all existing instances; re-created ones are new
+  const error = rerender(affected, (instance) => {
+    if (!recreated.has(instance)) instance.hotReplaced?.(oldClass, ElementClass);
+  });
+
+  // A throwing render leaves the element blank; go back to the version
+  // that rendered
+  if (error) {
+    log("error", "[lit-hmr] <" + tagName + "> failed to render after the update, rolled back", error);
+    undo.reverse().forEach((step) => step());
+    const message = error instanceof Error ? error.message : String(error);
+    const rolledBack: UpdateReport = { patched: [], failures: [`render: ${message} (rolled back)`] };
+    for (const record of [existing, ...copies]) record.lastReport = rolledBack;
+    window.__LIT_HMR_PENDING__.elements.push({
+      tagName,
+      instances: affected.reduce((count, record) => count + record.instances.size, 0),
+      recreated: 0,
+      failures: report.failures.length,
+      error: { message: `<${tagName}> failed to render: ${message}`, stack: (error as Error)?.stack ?? "" },
+    });
+    dispatchUpdate("lit-hmr:after-update", detail, targets);
+    return;
+  }
+  // Kept until the module's accept handler runs, in case the rest of the
+  // module throws
+  const steps = window.__LIT_HMR_UNDO__.get(moduleUrl) ?? [];
+  window.__LIT_HMR_UNDO__.set(moduleUrl, [...steps, ...undo]);
+
+  for (const record of [existing, ...copies]) {
+    record.updates++;
+    record.lastUpdate = Date.now();
+    record.lastReport = report;
+  }
+  window.__LIT_HMR_PENDING__.elements.push({
+    tagName,
+    instances: affected.reduce((count, record) => count + record.instances.size, 0),
+    recreated: recreated.size,
+    failures: report.failures.length,
+    error: null,
+  });
+  dispatchUpdate("lit-hmr:after-update", detail, targets);
+
+  // A scoped registry keeps the classes it was given (ScopedRegistryHost
+  // creates it once per class); the new version's definitions name the
+  // current versions of its children
+  for (const [childTag, Child] of Object.entries(ElementClass.elementDefinitions ?? {})) {
+    const childModule = scopedModule(Child);
+    if (childModule !== null) updateScopedVersions(childTag, Child, childModule);
+  }
+}
+
+// Logs a member that couldn't be patched and records it in the report
+function reportFailure(report: UpdateReport | null, what: string, err: unknown): void {
+  log("warn", "[lit-hmr] Failed to patch", what, err);
+  report?.failures.push(`${what}: ${err instanceof Error ? err.message : String(err)}`);
+}
+
+function dispatchUpdate(
+  type: keyof WindowEventMap & `lit-hmr:${string}`,
+  detail: HmrUpdateDetail,
+  records: ElementRecord[]
+): void {
+  window.dispatchEvent(new CustomEvent(type, { detail }));
+  for (const record of records) {
+    record.instances.forEach((instance) => instance.dispatchEvent(new CustomEvent(type, { detail })));
+  }
+}
+
+/**
+ * Request an update of every instance of the given records, call the hook,
+ * and render the connected ones right away instead of in Lit's next
+ * microtask, so a throwing render is caught here. Returns the first error.
+ */
+function rerender(records: ElementRecord[], hook: (instance: LitInstance) => void): unknown {
+  let error: unknown = null;
+  for (const record of records) {
+    record.instances.forEach((instance) => {
+      instance.requestUpdate?.();
+      try {
+        hook(instance);
+      } catch (err) {
+        log("error", "[lit-hmr] hotReplaced of <" + record.tagName + "> threw", err);
+      }
+    });
+  }
+  for (const record of records) {
+    for (const instance of record.instances) {
+      // Instances waiting to hydrate from declarative shadow DOM render
+      // the latest version once they do
+      if (!instance.isConnected || !instance.isUpdatePending || instance.hasAttribute("defer-hydration")) {
+        continue;
+      }
+      try {
+        instance.performUpdate?.();
+      } catch (err) {
+        error ??= err;
+      }
+    }
+  }
+  return error;
+}
+
+/**
+ * Own prototype members and static styles of a class; the returned
+ * function puts them back.
+ */
+function saveClass(cls: LitElementClass): () => void {
+  const proto = cls.prototype;
+  const members = new Map(
+    Reflect.ownKeys(proto).map((key) => [key, Object.getOwnPropertyDescriptor(proto, key)!])
+  );
+  const styles = Object.getOwnPropertyDescriptor(cls, "styles");
+  return () => {
+    for (const key of Reflect.ownKeys(proto)) {
+      if (!members.has(key)) Reflect.deleteProperty(proto, key);
+    }
+    for (const [key, desc] of members) {
+      try {
+        Object.defineProperty(proto, key, desc);
+      } catch {
+        // Non-configurable, so the update couldn't have changed it either
+      }
+    }
+    if (styles) {
+      Object.defineProperty(cls, "styles", styles);
+    } else {
+      delete cls.styles;
+    }
+  };
+}
+
+/**
+ * A record as it is before an update, with its proxy's members and
+ * reactive property declarations; the returned function puts it back.
+ */
+function saveRecord(record: ElementRecord): () => void {
+  const restoreProxy = saveClass(record.proxyClass);
+  const properties = new Map(record.proxyClass.elementProperties ?? []);
+  const { elementClass, defaults, accessors, constructLatest, updates, lastUpdate, lastReport } = record;
+  const saved = { elementClass, defaults, accessors: new Map(accessors), constructLatest, updates, lastUpdate, lastReport };
+  return () => {
+    restoreProxy();
+    const current = record.proxyClass.elementProperties;
+    if (current) {
+      current.clear();
+      properties.forEach((options, name) => current.set(name, options));
+    }
+    Object.assign(record, saved);
+    // Swapping styles back, the last step, compares against the ones the
+    // update adopted
+    const adopted = record.proxyClass.elementStyles;
+    refinalize(record);
+    record.proxyClass.elementStyles = adopted;
+  };
+}
+
+const capture = (options: boolean | EventListenerOptions | undefined) =>
+  typeof options === "boolean" ? options : Boolean(options?.capture);
+
+/**
+ * Record the listeners added to the record's instances, so re-created
+ * instances get the same ones. Ones the element adds itself, in its
+ * constructor (before it is tracked) or as its own members, the new
+ * instance adds again. Only installed for elements that can be re-created.
+ */
+function recordListeners(record: ElementRecord): void {
+  const proto = record.proxyClass.prototype;
+  if (Object.prototype.hasOwnProperty.call(proto, "addEventListener")) return;
+  const parent = Object.getPrototypeOf(proto) as LitInstance;
+
+  Object.defineProperties(proto, {
+    addEventListener: {
+      configurable: true,
+      writable: true,
+      value(
+        this: LitInstance,
+        type: string,
+        listener: EventListenerOrEventListenerObject,
+        options?: boolean | AddEventListenerOptions
+      ) {
+        if (record.instances.has(this) && !isOwnMember(this, listener)) {
+          let listeners = window.__LIT_HMR_LISTENERS__.get(this);
+          if (!listeners) {
+            listeners = [];
+            window.__LIT_HMR_LISTENERS__.set(this, listeners);
+          }
+          listeners.push([type, listener, options]);
+        }
+        parent.addEventListener.call(this, type, listener, options);
+      },
+    },
+    removeEventListener: {
+      configurable: true,
+      writable: true,
+      value(
+        this: LitInstance,
+        type: string,
+        listener: EventListenerOrEventListenerObject,
+        options?: boolean | EventListenerOptions
+      ) {
+        const listeners = window.__LIT_HMR_LISTENERS__.get(this);
+        if (listeners) {
+          const index = listeners.findIndex(
+            (entry) => entry[0] === type && entry[1] === listener && capture(entry[2]) === capture(options)
+          );
+          if (index !== -1) listeners.splice(index, 1);
+        }
+        parent.removeEventListener.call(this, type, listener, options);
+      },
+    },
+  });
+}
+
+/**
+ * Mark a class version whose instances must be re-created: its constructor,
+ * class fields or shadow root options changed. Returns the class so the call
+ * can wrap the class argument of a registration.
+ */
+export function recreate<T extends Function>(ElementClass: T): T {
+  window.__LIT_HMR_RECREATE__.add(ElementClass);
+  return ElementClass;
+}
+
+/**
+ * Replace every connected instance with one built by the latest class. The
+ * new instance gets the old one's attributes, reactive property values,
+ * light-DOM children, listeners other code added through addEventListener,
+ * manual slot assignments and focus. Other instance state starts over, as
+ * in a reload.
+ */
+function recreateInstances(
+  record: ElementRecord,
+  report: UpdateReport,
+  undo: (() => void)[]
+): Set<LitInstance> {
+  record.constructLatest = true;
+  const recreated = new Set<LitInstance>();
+  const properties = [...(record.proxyClass.elementProperties?.keys() ?? [])];
+
+  for (const old of [...record.instances]) {
+    if (!old.isConnected) continue;
+
+    const fresh = createInstance(record, old);
+    for (const attr of Array.from(old.attributes)) {
+      fresh.setAttribute(attr.name, attr.value);
+    }
+    for (const name of properties) {
+      try {
+        fresh[name as string] = old[name as string];
+      } catch (err) {
+        reportFailure(report, `${String(name)} (copy to re-created instance)`, err);
+      }
+    }
+    for (const [type, listener, options] of window.__LIT_HMR_LISTENERS__.get(old) ?? []) {
+      fresh.addEventListener(type, listener, options);
+    }
+
+    // Read before the old instance leaves the document
+    const oldRoot = old.shadowRoot;
+    const focused = oldRoot?.activeElement ?? (document.activeElement === old ? old : null);
+    const focusPath = focused && focused !== old && oldRoot ? childPath(oldRoot, focused) : null;
+    const assigned = new Map<string, Node[]>();
+    if (oldRoot?.slotAssignment === "manual") {
+      oldRoot.querySelectorAll("slot").forEach((slot) => assigned.set(slot.name, slot.assignedNodes()));
+    }
+
+    fresh.append(...Array.from(old.childNodes));
+    old.replaceWith(fresh);
+    untrack(record, old);
+    recreated.add(fresh);
+    undo.push(() => {
+      if (!fresh.isConnected) return;
+      old.append(...Array.from(fresh.childNodes));
+      fresh.replaceWith(old);
+      untrack(record, fresh);
+    });
+
+    if (!focused && assigned.size === 0) continue;
+    Promise.resolve(fresh.updateComplete).then(() => {
+      const root = fresh.shadowRoot;
+      root?.querySelectorAll("slot").forEach((slot) => {
+        const nodes = assigned.get(slot.name);
+        if (nodes && root.slotAssignment === "manual") slot.assign(...(nodes as (Element | Text)[]));
+      });
+      if (focused) {
+        const target = focusPath && root ? resolvePath(root, focusPath) : null;
+        ((target as HTMLElement | null) ?? fresh).focus?.();
+      }
+    });
+  }
+  return recreated;
+}
+
+/**
+ * A new element for the record's own registry: the document's, or the
+ * scoped one the old instance's shadow root creates elements from.
+ */
+function createInstance(record: ElementRecord, old: LitInstance): LitInstance {
+  if (record.registry === window.customElements) {
+    return (old.localName === record.tagName
+      ? document.createElement(record.tagName)
+      : document.createElement(old.localName, { is: record.tagName })) as LitInstance;
+  }
+  const root = old.getRootNode() as Partial<ScopedShadowRoot>;
+  if (root.customElements === record.registry && typeof root.createElement === "function") {
+    return root.createElement(record.tagName) as LitInstance;
+  }
+  return new record.proxyClass() as LitInstance;
+}
+
+// Child indices from a root down to a node, to find its counterpart in a
+// re-rendered copy of the tree
+function childPath(root: Node, node: Node): number[] | null {
+  const path: number[] = [];
+  for (let current = node; current !== root; current = current.parentNode!) {
+    if (!current.parentNode) return null;
+    path.unshift(Array.prototype.indexOf.call(current.parentNode.childNodes, current));
+  }
+  return path;
+}
+
+function resolvePath(root: Node, path: number[]): Node | null {
+  let node: Node | undefined = root;
+  for (const index of path) {
+    node = node?.childNodes[index];
+  }
+  return node ?? null;
+}
+
+function isPlainData(value: unknown): boolean {
+  if (value === null || typeof value === "string" || typeof value === "boolean") return true;
+  if (typeof value === "number") return Number.isFinite(value);
+  if (Array.isArray(value)) return value.every(isPlainData);
+  if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.values(value as object).every(isPlainData);
+  }
+  return false;
+}
+
+/**
+ * Record the reactive property defaults a class declares. The thunk
+ * evaluates the initializer in the module's scope, once an update needs its
+ * value. Returns the class so the call can wrap the class argument of a
+ * registration.
+ */
+export function defaults<T extends Function>(ElementClass: T, fields: FieldEntry[]): T {
+  const entries = new Map<string, FieldDefault>();
+  for (const [name, initializer, evaluate, staticJson] of fields) {
+    entries.set(name, { initializer, evaluate, json: staticJson ?? (evaluate ? undefined : null) });
+  }
+  window.__LIT_HMR_DEFAULTS__.set(ElementClass, entries);
+  return ElementClass;
+}
+
+/** The default's value as JSON when it is plain data, running its thunk the first time */
+function defaultJson(field: FieldDefault): string | null {
+  if (field.json === undefined) {
+    try {
+      const value = field.evaluate!();
+      field.json = isPlainData(value) ? JSON.stringify(value) : null;
+    } catch {
+      // e.g. a binding declared further down the module
+      field.json = null;
+    }
+  }
+  return field.json;
+}
+
+/**
+ * Apply the defaults that changed in this edit (their initializer or its
+ * value) to live instances, and to instances of registered subclasses that
+ * don't declare the field themselves. An instance only gets the new default
+ * while it still holds the old one, so values set at runtime are kept.
+ */
+function applyDefaults(
+  record: ElementRecord,
+  next: Map<string, FieldDefault>,
+  report: UpdateReport,
+  undo: (() => void)[]
+): void {
+  const previous = record.defaults;
+  record.defaults = next;
+
+  for (const [name, field] of next) {
+    const old = previous.get(name);
+    // Same initializer with the same value (e.g. an unchanged constant)
+    if (old && old.initializer === field.initializer && defaultJson(old) === defaultJson(field)) continue;
+    if (!field.evaluate && field.json === null) continue;
+    report.patched.push(`${name} (default)`);
+
+    // Instances holding a value that isn't plain data (a `Map`, an element)
+    // can't be told apart from ones that changed it
+    let kept = 0;
+    for (const target of allRecords()) {
+      // Copies in other registries are the same element; subclasses only
+      // inherit fields they don't declare
+      if (
+        target.baseClass !== record.baseClass &&
+        (target.defaults.has(name) || !record.baseClass.isPrototypeOf(target.proxyClass))
+      ) {
+        continue;
+      }
+      target.instances.forEach((instance) => {
+        const current = instance[name];
+        const oldJson = old ? defaultJson(old) : null;
+        const untouched = oldJson !== null ? JSON.stringify(current) === oldJson : current === undefined;
+        if (!untouched) {
+          if (old && oldJson === null) kept++;
+          return;
+        }
+        try {
+          // A fresh value per instance, like the initializer itself
+          instance[name] = field.evaluate ? field.evaluate() : JSON.parse(field.json!);
+          undo.push(() => {
+            instance[name] = current;
+          });
+        } catch (err) {
+          reportFailure(report, `${name} (default)`, err);
+        }
+      });
+    }
+    if (kept > 0) {
+      log(
+        "info",
+        `[lit-hmr] New default of ${name} not applied to ${kept} live instance(s) of <${record.tagName}>: ` +
+          "their value isn't plain data, so it can't be compared with the old default; new instances get it"
+      );
+    }
+  }
+}
+
+/**
+ * Give an instance the proxy just built the defaults that changed since the
+ * first version, whose field initializers ran instead: its own and those of
+ * edited base elements that no nearer class declares.
+ */
+function applyChangedDefaults(record: ElementRecord, instance: LitInstance): void {
+  // The element, then the base elements it extends, nearest first
+  const ancestors = allRecords().filter(
+    (target) => target.baseClass !== record.baseClass && target.baseClass.isPrototypeOf(record.baseClass)
+  );
+  ancestors.sort((a, b) => (a.baseClass.isPrototypeOf(b.baseClass) ? 1 : -1));
+  const declared = new Set<string>();
+  const classes = new Set<LitElementClass>();
+  for (const target of [record, ...ancestors]) {
+    // Copies in other registries declare the same fields
+    if (classes.has(target.baseClass)) continue;
+    classes.add(target.baseClass);
+    for (const [name, field] of target.defaults) {
+      if (declared.has(name)) continue;
+      declared.add(name);
+      const base = target.baseDefaults.get(name);
+      if (base && base.initializer === field.initializer && defaultJson(base) === defaultJson(field)) continue;
+      if (!field.evaluate && field.json === null) continue;
+      try {
+        instance[name] = field.evaluate ? field.evaluate() : JSON.parse(field.json!);
+      } catch (err) {
+        log("warn", "[lit-hmr] Failed to apply the default of " + name + " to a new <" + record.tagName + ">", err);
+      }
+    }
+  }
+}
+
+/**
+ * Register or update a reactive controller class. Controller instances
+ * live on their hosts, so instead of replacing them, every earlier
+ * version's prototype gets the new members; instance fields (private
+ * state) are left alone.
+ */
+export function controller(ControllerClass: ControllerClass, moduleUrl: string): void {
+  const key = moduleUrl + "#" + ControllerClass.name;
+  const record = window.__LIT_HMR_CONTROLLERS__.get(key);
+  if (!record) {
+    window.__LIT_HMR_CONTROLLERS__.set(key, {
+      name: ControllerClass.name,
+      moduleUrl,
+      versions: [ControllerClass],
+    });
+    return;
+  }
+  // The change can't be hot-swapped; keep the current members until the
+  // reload
+  if (window.__LIT_HMR_RELOAD_REASON__) return;
+  log("debug", "[lit-hmr] Hot updating controller " + ControllerClass.name);
+  window.__LIT_HMR_PENDING__.controllers.push(ControllerClass.name);
+  updateControllers(record.versions, ControllerClass, null);
+  record.versions.push(ControllerClass);
+}
+
+function updateControllers(
+  versions: ControllerClass[],
+  ControllerClass: ControllerClass,
+  report: UpdateReport | null
+): void {
+  const newProto = ControllerClass.prototype;
+  for (const version of versions) {
+    if (version === ControllerClass) continue;
+    for (const key of Reflect.ownKeys(newProto)) {
+      if (key === "constructor") continue;
+      try {
+        Object.defineProperty(version.prototype, key, Object.getOwnPropertyDescriptor(newProto, key)!);
+      } catch (err) {
+        reportFailure(report, `${ControllerClass.name}.${String(key)}`, err);
+      }
+    }
+  }
+
+  // Re-render every host holding a controller of one of these versions
+  for (const record of allRecords()) {
+    record.instances.forEach((host) => {
+      const controllers = window.__LIT_HMR_HOST_CONTROLLERS__.get(host);
+      if (!controllers) return;
+      for (const controller of controllers) {
+        if (versions.includes(controller.constructor as ControllerClass)) {
+          host.requestUpdate?.();
+          break;
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Walk the old and new class ancestries side by side, starting at the
+ * class the proxy extends, and pair up the versions that differ (the
+ * element itself, an edited base class, a re-applied mixin). Stops at the
+ * first shared ancestor or where the hierarchies no longer line up.
+ */
+function changedAncestry(
+  oldClass: LitElementClass,
+  newClass: LitElementClass
+): [LitElementClass, LitElementClass][] {
+  const pairs: [LitElementClass, LitElementClass][] = [];
+  while (
+    typeof oldClass === "function" &&
+    typeof newClass === "function" &&
+    oldClass !== newClass &&
+    oldClass.name === newClass.name &&
+    !oldClass.isPrototypeOf(newClass) &&
+    !newClass.isPrototypeOf(oldClass)
+  ) {
+    pairs.push([oldClass, newClass]);
+    oldClass = Object.getPrototypeOf(oldClass);
+    newClass = Object.getPrototypeOf(newClass);
+  }
+  return pairs;
+}
+
+/**
+ * Give the old class of every pair the new version's prototype members
+ * and static styles.
+ */
+function patchAncestry(
+  pairs: [LitElementClass, LitElementClass][],
+  reactiveProps: Map<PropertyKey, PropertyOptions>,
+  report: UpdateReport
+): void {
+  const source = (desc: PropertyDescriptor | undefined) =>
+    desc ? [desc.value, desc.get, desc.set].map((fn) => (typeof fn === "function" ? String(fn) : fn)) : [];
+
+  pairs.forEach(([oldClass, newClass], index) => {
+    // Members of base classes are reported with their class name
+    const memberLabel = (key: PropertyKey) =>
+      index === 0 ? String(key) : `${newClass.name}.${String(key)}`;
+    const oldProto = oldClass.prototype;
+    const newProto = newClass.prototype;
+
+    for (const key of Reflect.ownKeys(newProto)) {
+      if (key === "constructor") continue;
+
+      const desc = Object.getOwnPropertyDescriptor(newProto, key)!;
+
+      // Reactive property accessors are patched separately; computed
+      // getters/setters are copied like methods
+      if ((desc.get || desc.set) && reactiveProps.has(key)) {
+        continue;
+      }
+
+      const before = source(Object.getOwnPropertyDescriptor(oldProto, key));
+      try {
+        Object.defineProperty(oldProto, key, desc);
+        const after = source(desc);
+        if (before.length === 0 || before.some((part, i) => part !== after[i])) {
+          report.patched.push(memberLabel(key));
+        }
+      } catch (err) {
+        reportFailure(report, memberLabel(key), err);
+      }
+    }
+
+    // Drop methods the new version no longer has, so inherited ones show through
+    for (const key of Reflect.ownKeys(oldProto)) {
+      if (key === "constructor" || Object.prototype.hasOwnProperty.call(newProto, key)) continue;
+      const desc = Object.getOwnPropertyDescriptor(oldProto, key)!;
+      if (!desc.get && !desc.set && desc.configurable) {
+        delete oldProto[key as string];
+        report.patched.push(`${memberLabel(key)} (removed)`);
+      }
+    }
+
+    const styles = Object.getOwnPropertyDescriptor(newClass, "styles");
+    if (String(newClass.styles) !== String(oldClass.styles)) report.patched.push(memberLabel("styles"));
+    if (styles) {
+      Object.defineProperty(oldClass, "styles", styles);
+    } else {
+      delete oldClass.styles;
+    }
+  });
+}
+
+// Same check Lit uses to choose between adoptedStyleSheets and <style> tags
+function adoptsStyleSheets(): boolean {
+  return (
+    (window.ShadyCSS === undefined || window.ShadyCSS.nativeShadow) &&
+    "adoptedStyleSheets" in Document.prototype &&
+    "replace" in CSSStyleSheet.prototype
+  );
+}
+
+/**
+ * Re-finalize styles after an update and swap them into live shadow roots
+ * of the given records' instances.
+ */
+function swapStyles(records: ElementRecord[]): void {
+  const adopting = adoptsStyleSheets();
+  const toSheet = (style: StyleLike) =>
+    style instanceof CSSStyleSheet ? style : style.styleSheet;
+  const cssText = (style: StyleLike) =>
+    style instanceof CSSStyleSheet ? "" : style.cssText;
+
+  for (const other of records) {
+    const cls = other.proxyClass;
+    if (typeof cls.finalizeStyles !== "function") continue;
+
+    const oldStyles = cls.elementStyles ?? [];
+    const newStyles = cls.finalizeStyles(cls.styles);
+    cls.elementStyles = newStyles;
+    // Roots hydrated from declarative shadow DOM have nothing adopted; the
+    // server rendered every style's text into one <style> instead
+    const serverText = oldStyles.map(cssText).join("");
+
+    for (const instance of other.instances) {
+      // Lit creates no render root for instances waiting to hydrate, but
+      // the server-rendered one is already there
+      const root = instance.renderRoot ?? instance.shadowRoot;
+      if (!(root instanceof ShadowRoot)) continue;
+
+      if (adopting) {
+        // Keep sheets adopted by something other than Lit
+        const oldSheets = new Set(oldStyles.map(toSheet));
+        const extra = root.adoptedStyleSheets.filter((sheet) => !oldSheets.has(sheet));
+        root.adoptedStyleSheets = [
+          ...newStyles.map(toSheet).filter((sheet): sheet is CSSStyleSheet => sheet !== undefined),
+          ...extra,
+        ];
+        for (const el of Array.from(root.children)) {
+          if (el.localName === "style" && serverText !== "" && el.textContent === serverText) el.remove();
+        }
+      } else {
+        // Lit's fallback appends one <style> per style to the shadow root
+        const oldTexts = new Set([...oldStyles.map(cssText), serverText]);
+        const stale = Array.from(root.children).filter(
+          (el) => el.localName === "style" && oldTexts.has(el.textContent ?? "")
+        );
+        const anchor = stale[0] ?? null;
+        for (const style of newStyles) {
+          const el = document.createElement("style");
+          if (window.litNonce !== undefined) el.setAttribute("nonce", window.litNonce);
+          el.textContent = cssText(style);
+          root.insertBefore(el, anchor);
+        }
+        stale.forEach((el) => el.remove());
+      }
+    }
+  }
+}
+
+/**
+ * Diff the proxy's reactive property declarations against the new class's.
+ * Added properties are registered through Lit's createProperty, changed
+ * options are swapped in around the existing accessor (so instance values
+ * stay where they are), and removed properties lose their attribute and
+ * reflection. Lit's finalize() then rebuilds the attribute mapping.
+ */
+function patchProperties(
+  record: ElementRecord,
+  newProps: Map<PropertyKey, PropertyOptions>,
+  report: UpdateReport
+): void {
+  const cls = record.proxyClass;
+  const proto = cls.prototype;
+  const oldProps = cls.elementProperties;
+  if (!oldProps || typeof cls.createProperty !== "function") return;
+
+  const sameValue = (a: unknown, b: unknown) =>
+    a === b || (typeof a === "function" && typeof b === "function" && String(a) === String(b));
+  const sameOptions = (a: PropertyOptions, b: PropertyOptions) => {
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const x = a[key];
+      const y = b[key];
+      if (sameValue(x, y)) continue;
+      // Inline converters are new objects on every evaluation
+      if (
+        x && y && typeof x === "object" && typeof y === "object" &&
+        Object.keys(x).length === Object.keys(y).length &&
+        Object.keys(x).every((k) =>
+          sameValue((x as Record<string, unknown>)[k], (y as Record<string, unknown>)[k])
+        )
+      ) {
+        continue;
+      }
+      return false;
+    }
+    return true;
+  };
+  const findDescriptor = (name: PropertyKey) => {
+    for (let obj: object | null = proto; obj; obj = Object.getPrototypeOf(obj)) {
+      const desc = Object.getOwnPropertyDescriptor(obj, name);
+      if (desc) return desc;
+    }
+    return undefined;
+  };
+
+  let changed = false;
+  for (const [name, options] of newProps) {
+    const previous = oldProps.get(name);
+    if (previous === undefined) {
+      record.accessors.delete(name);
+      cls.createProperty(name, options);
+      report.patched.push(`${String(name)} (property added)`);
+      changed = true;
+    } else if (!sameOptions(previous, options)) {
+      // The existing accessor owns the instance storage; wrap it so
+      // updates are requested with the new options
+      let inner = record.accessors.get(name);
+      if (!inner) {
+        inner = findDescriptor(name);
+        if (inner && inner.get && inner.set) record.accessors.set(name, inner);
+      }
+      if (inner && inner.get && inner.set) {
+        const { get, set } = inner;
+        Object.defineProperty(proto, name, {
+          configurable: true,
+          enumerable: inner.enumerable,
+          get(this: LitInstance) {
+            return get.call(this);
+          },
+          set(this: LitInstance, value: unknown) {
+            const oldValue = get.call(this);
+            set.call(this, value);
+            this.requestUpdate?.(name, oldValue, options);
+          },
+        });
+      }
+      oldProps.set(name, options);
+      report.patched.push(`${String(name)} (property options)`);
+      changed = true;
+    }
+  }
+  for (const name of [...oldProps.keys()]) {
+    if (!newProps.has(name)) {
+      // The accessor stays, so existing values remain readable
+      oldProps.delete(name);
+      report.patched.push(`${String(name)} (property removed)`);
+      changed = true;
+    }
+  }
+  if (changed) refinalize(record);
+}
+
+/**
+ * Re-finalize the proxy from its (now updated) elementProperties, which
+ * rebuilds Lit's attribute mapping.
+ */
+function refinalize(record: ElementRecord): void {
+  const cls = record.proxyClass;
+  // Own null metadata keeps the first version's decorator metadata from
+  // being applied again
+  const metadata = (Symbol as { metadata?: symbol }).metadata;
+  if (metadata) {
+    Object.defineProperty(cls, metadata, { value: null, configurable: true });
+  }
+  delete cls.finalized;
+  cls.finalize?.();
+
+  record.extraAttributes = (cls.observedAttributes ?? []).filter(
+    (attr) => !record.observedAttributes.has(attr)
+  );
+  record.instances.forEach((instance) => observeAttributes(record, instance));
+}
+
+/** Returns false when the instance was already tracked */
+function track(record: ElementRecord, instance: LitInstance): boolean {
+  if (!record.instances.add(instance)) return false;
+  if (record.extraAttributes.length > 0) {
+    observeAttributes(record, instance);
+  }
+  return true;
+}
+
+/**
+ * Whether `value` is the instance itself or one of its methods or
+ * function-valued fields. Accessors aren't called.
+ */
+function isOwnMember(instance: LitInstance, value: unknown): boolean {
+  if (value === instance) return true;
+  if (typeof value !== "function") return false;
+  for (let obj: object | null = instance; obj && obj !== HTMLElement.prototype; obj = Object.getPrototypeOf(obj)) {
+    for (const descriptor of Object.values(Object.getOwnPropertyDescriptors(obj))) {
+      if (descriptor.value === value) return true;
+    }
+  }
+  return false;
+}
+
+function untrack(record: ElementRecord, instance: LitInstance): void {
+  record.instances.delete(instance);
+  record.attributeObservers.get(instance)?.disconnect();
+  record.attributeObservers.delete(instance);
+}
+
+/**
+ * Find instances of registered elements in the document, open and Lit-owned
+ * shadow roots, and same-origin iframes, and track the ones that aren't.
+ * Instances are tracked when constructed, so this is a safety net for ones
+ * that escaped tracking.
+ *
+ * Returns the number of instances newly tracked.
+ */
+export function scan(root: ParentNode = document): number {
+  const byProxy = new Map<Function, ElementRecord>(allRecords().map((record) => [record.proxyClass, record]));
+  const visited = new Set<ParentNode>();
+  let found = 0;
+
+  const visit = (node: ParentNode) => {
+    if (visited.has(node)) return;
+    visited.add(node);
+    for (const element of Array.from(node.querySelectorAll("*"))) {
+      const record = byProxy.get(element.constructor);
+      if (record && track(record, element as LitInstance)) found++;
+
+      // Lit keeps its render root even when the shadow root is closed
+      const renderRoot = (element as LitInstance).renderRoot;
+      const shadowRoot =
+        element.shadowRoot ??
+        (renderRoot && renderRoot !== element && renderRoot.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+          ? renderRoot
+          : null);
+      if (shadowRoot) visit(shadowRoot);
+
+      // Null for cross-origin frames
+      const frameDocument = element.localName === "iframe" ? (element as HTMLIFrameElement).contentDocument : null;
+      if (frameDocument) visit(frameDocument);
+    }
+  };
+  visit(root);
+
+  log("debug", "[lit-hmr] Scan found", found, "untracked instances");
+  return found;
+}
+
+/**
+ * Attributes added after define aren't in the browser's observedAttributes,
+ * so forward their changes to attributeChangedCallback ourselves.
+ */
+function observeAttributes(record: ElementRecord, instance: LitInstance): void {
+  record.attributeObservers.get(instance)?.disconnect();
+  record.attributeObservers.delete(instance);
+  const attributes = record.extraAttributes;
+  if (attributes.length === 0) return;
+
+  const observer = new MutationObserver((mutations) => {
+    for (const mutation of mutations) {
+      const name = mutation.attributeName!;
+      instance.attributeChangedCallback?.(name, mutation.oldValue, instance.getAttribute(name));
+    }
+  });
+  observer.observe(instance, { attributes: true, attributeOldValue: true, attributeFilter: attributes });
+  record.attributeObservers.set(instance, observer);
+
+  for (const name of attributes) {
+    if (instance.hasAttribute(name)) {
+      instance.attributeChangedCallback?.(name, null, instance.getAttribute(name));
+    }
+  }
+}
+
+const STATE_STORAGE_KEY = "lit-hmr:state";
+
+/**
+ * Identifies an instance across page loads: its tag and its path from the
+ * document, through shadow roots. Each step is the element's id, which ends
+ * the path at document level, or its tag and how many siblings before it
+ * have the same tag.
+ */
+function instanceKey(record: ElementRecord, instance: LitInstance): string {
+  const steps: string[] = [];
+  let el: Element = instance;
+  for (;;) {
+    const root = el.getRootNode();
+    if (el.id) {
+      steps.unshift(`#${el.id}`);
+      if (!(root instanceof ShadowRoot)) break;
+      el = root.host;
+      continue;
+    }
+    let index = 0;
+    for (let sibling = el.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.localName === el.localName) index++;
+    }
+    steps.unshift(`${el.localName}:${index}`);
+    if (el.parentElement) {
+      el = el.parentElement;
+    } else if (root instanceof ShadowRoot) {
+      el = root.host;
+    } else {
+      break;
+    }
+  }
+  return `${record.tagName} ${steps.join("/")}`;
+}
+
+/**
+ * Save the reactive property and state values of connected instances that
+ * are plain data and differ from their default, for the page to restore
+ * after it reloads.
+ */
+function saveState(): void {
+  const state: Record<string, Record<string, unknown>> = {};
+  for (const record of allRecords()) {
+    for (const instance of record.instances) {
+      if (!instance.isConnected) continue;
+      const values: Record<string, unknown> = {};
+      for (const name of record.proxyClass.elementProperties?.keys() ?? []) {
+        if (typeof name !== "string") continue;
+        const value = instance[name];
+        if (value === undefined || !isPlainData(value)) continue;
+        // A default changed by the edit that reloads applies after the reload
+        const field = record.defaults.get(name);
+        if (field && JSON.stringify(value) === defaultJson(field)) continue;
+        values[name] = value;
+      }
+      if (Object.keys(values).length > 0) state[instanceKey(record, instance)] = values;
+    }
+  }
+  try {
+    sessionStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    log("warn", "[lit-hmr] Couldn't save element state before reloading", err);
+  }
+}
+
+/** Give an instance connecting for the first time the values saved for it */
+function restoreState(record: ElementRecord, instance: LitInstance): void {
+  const saved = window.__LIT_HMR_SAVED_STATE__;
+  if (saved.size === 0) return;
+  const key = instanceKey(record, instance);
+  const values = saved.get(key);
+  if (!values) return;
+  saved.delete(key);
+  // Properties the reloaded version no longer declares are dropped
+  for (const [name, value] of Object.entries(values)) {
+    if (record.proxyClass.elementProperties?.has(name)) instance[name] = value;
+  }
+  log("debug", "[lit-hmr] Restored", key, values);
+}
+
+/**
+ * Called when the runtime loads, with the `persistState` option: takes the
+ * values saved before the reload that loaded the page, and saves them
+ * again whenever Vite reloads it.
+ */
+export function persistState(hot: { on(event: string, listener: () => void): void }): void {
+  try {
+    const saved = sessionStorage.getItem(STATE_STORAGE_KEY);
+    sessionStorage.removeItem(STATE_STORAGE_KEY);
+    if (saved) {
+      for (const [key, values] of Object.entries(JSON.parse(saved))) {
+        window.__LIT_HMR_SAVED_STATE__.set(key, values as Record<string, unknown>);
+      }
+    }
+  } catch (err) {
+    log("warn", "[lit-hmr] Couldn't read element state saved before reloading", err);
+  }
+
+  // Vite announces reloads it may not go through with (edits to other
+  // pages); save only once the page is actually going away
+  let reloading = false;
+  hot.on("vite:beforeFullReload", () => {
+    reloading = true;
+  });
+  window.addEventListener("pagehide", () => {
+    if (reloading) saveState();
+  });
+}
+
+/**
+ * Storage of lowered private members (a WeakMap, WeakSet or loose-mode key).
+ * Every version of a module gets the first version's, so methods of a new
+ * class version find the private state of existing instances, and the
+ * helpers' brand checks pass for them.
+ */
+export function privateStore<T>(moduleUrl: string, key: string, store: T): T {
+  const id = moduleUrl + "#" + key;
+  const stores = window.__LIT_HMR_PRIVATE_STORES__;
+  if (!stores.has(id)) stores.set(id, store);
+  return stores.get(id) as T;
+}
+
+/**
+ * Stand-in for `customElements.get` in define guards. A tag registered by
+ * the calling module reads as undefined, so the guarded define runs again
+ * when the module is re-executed.
+ */
+export function get(tagName: string, moduleUrl: string): CustomElementConstructor | undefined {
+  const record = recordsOf(window.customElements).get(tagName);
+  if (record && record.moduleUrl === moduleUrl) return undefined;
+  return customElements.get(tagName);
+}
+
+/**
+ * Called first thing by a module whose edit can't be hot-swapped; the
+ * previous version's accept handler picks the reason up and invalidates.
+ * Vite keeps serving the transformed module after the reload, so on its
+ * first run (no elements or controllers defined by it yet) there is nothing
+ * to reload.
+ */
+export function requestReload(reason: string, moduleUrl?: string): void {
+  if (
+    moduleUrl !== undefined &&
+    !allRecords().some((record) => record.moduleUrl === moduleUrl) &&
+    ![...window.__LIT_HMR_CONTROLLERS__.values()].some((record) => record.moduleUrl === moduleUrl)
+  ) {
+    return;
+  }
+  window.__LIT_HMR_RELOAD_REASON__ = reason;
+}
+
+export function takeReloadReason(): string | undefined {
+  const reason = window.__LIT_HMR_RELOAD_REASON__;
+  window.__LIT_HMR_RELOAD_REASON__ = undefined;
+  return reason;
+}
+
+/**
+ * Called by an updated module's accept handler once its new version has
+ * run: logs what the update did and sends it to the dev server.
+ */
+export function report(hot: HotContextLike | undefined, moduleUrl: string, reloadReason?: string): void {
+  const result: HmrUpdateResult = { moduleUrl, ...window.__LIT_HMR_PENDING__, reload: reloadReason ?? null };
+  window.__LIT_HMR_PENDING__ = { elements: [], controllers: [] };
+  // The module ran to the end; its updates stay
+  window.__LIT_HMR_UNDO__.delete(moduleUrl);
+
+  if (result.reload) {
+    log("warn", "[lit-hmr] Reloading:", result.reload);
+  } else {
+    const updated = [
+      ...result.elements.filter((element) => element.error === null).map(
+        (element) => `<${element.tagName}> (${element.instances} instance${element.instances === 1 ? "" : "s"})`
+      ),
+      ...result.controllers,
+    ];
+    if (updated.length > 0) log("info", "[lit-hmr] Updated", updated.join(", "));
+  }
+  hot?.send("lit-hmr:update", result);
+}
+
+/**
+ * Called by an updated module's accept handler when its new version threw
+ * while re-executing: the elements it updated before throwing go back to
+ * their previous version, and the dev server is told which.
+ */
+export function rollback(hot: HotContextLike | undefined, moduleUrl: string): void {
+  const steps = window.__LIT_HMR_UNDO__.get(moduleUrl) ?? [];
+  window.__LIT_HMR_UNDO__.delete(moduleUrl);
+  steps.reverse().forEach((step) => step());
+
+  const elements = window.__LIT_HMR_PENDING__.elements;
+  if (elements.length > 0) {
+    log("warn", "[lit-hmr] Rolled back", elements.map((element) => `<${element.tagName}>`).join(", "));
+  }
+  for (const element of elements) {
+    element.error ??= {
+      message: `<${element.tagName}> rolled back, ${moduleUrl} threw while re-executing (see the browser console)`,
+      stack: "",
+    };
+  }
+  report(hot, moduleUrl);
+}
+
+/**
+ * Register a version of a template or style module (`html` partials,
+ * shared `css`). Its exports reach importers once its accept handler runs.
+ */
+export function shared(
+  moduleUrl: string,
+  bindings: SharedBindings,
+  dependents: string[],
+  rebindable: boolean
+): void {
+  const record = window.__LIT_HMR_SHARED__.get(moduleUrl);
+  if (!record) {
+    window.__LIT_HMR_SHARED__.set(moduleUrl, { versions: [bindings], dependents, rebindable });
+    return;
+  }
+  record.versions.push(bindings);
+  record.dependents = dependents;
+  record.rebindable = rebindable;
+}
+
+/**
+ * Called by a template or style module's accept handler once its new
+ * version has run. Importers hold the bindings of earlier versions, so
+ * those are set to the new values; replaced styles are swapped into
+ * `static styles` and live shadow roots, and the elements depending on the
+ * module re-render. A render that throws puts the old values back.
+ */
+export function updateShared(hot: HotContextLike | undefined, moduleUrl: string): void {
+  const record = window.__LIT_HMR_SHARED__.get(moduleUrl);
+  if (!record || record.versions.length < 2) return;
+  // Importers that aren't elements, or built values from the exports while
+  // they evaluated, run again instead
+  if (!record.rebindable) {
+    hot?.invalidate("[lit-hmr] values built from the exports of " + moduleUrl + " can't be swapped in place");
+    return;
+  }
+  const latest = record.versions[record.versions.length - 1];
+  const changes: UpdateReport = { patched: [], failures: [] };
+  const undo: (() => void)[] = [];
+
+  // Old value → new value, to find them in styles
+  const replaced = new Map<unknown, unknown>();
+  for (const version of record.versions.slice(0, -1)) {
+    for (const [name, [get, set]] of Object.entries(version)) {
+      // Removed exports keep their last value
+      const binding = latest[name];
+      if (!binding) continue;
+      const previous = get();
+      const value = binding[0]();
+      if (previous === value) continue;
+      set(value);
+      undo.push(() => set(previous));
+      if (typeof previous === "object" && previous !== null) replaced.set(previous, value);
+      if (!changes.patched.includes(name)) changes.patched.push(name);
+    }
+  }
+
+  // `static styles = [shared, css`...`]` holds the old results
+  const swap = (value: unknown): unknown => {
+    if (replaced.has(value)) return replaced.get(value);
+    if (!Array.isArray(value)) return value;
+    const items = value.map(swap);
+    return items.some((item, i) => item !== value[i]) ? items : value;
+  };
+  const restyled = new Set<Function>();
+  const visited = new Set<Function>();
+  for (const element of allRecords()) {
+    for (const start of [element.proxyClass, element.elementClass]) {
+      for (let cls: Function | null = start; typeof cls === "function"; cls = Object.getPrototypeOf(cls)) {
+        if (visited.has(cls)) continue;
+        visited.add(cls);
+        const desc = Object.getOwnPropertyDescriptor(cls, "styles");
+        if (!desc || !("value" in desc)) continue;
+        const styles = swap(desc.value);
+        if (styles === desc.value) continue;
+        Object.defineProperty(cls, "styles", { ...desc, value: styles });
+        undo.push(() => Object.defineProperty(cls!, "styles", desc));
+        restyled.add(cls);
+      }
+    }
+  }
+
+  // Elements that import the module or whose styles changed, their copies
+  // in other registries and registered subclasses
+  const dependents = new Set(record.dependents);
+  const direct = allRecords().filter(
+    (element) =>
+      dependents.has(element.moduleUrl) ||
+      [...restyled].some((cls) => cls === element.proxyClass || cls.isPrototypeOf(element.proxyClass))
+  );
+  const affected = allRecords().filter((element) =>
+    direct.some(
+      (other) =>
+        other === element ||
+        other.baseClass === element.baseClass ||
+        other.baseClass.isPrototypeOf(element.proxyClass)
+    )
+  );
+
+  for (const element of affected) {
+    dispatchUpdate("lit-hmr:before-update", { tagName: element.tagName, moduleUrl }, [element]);
+  }
+  swapStyles(affected);
+  const error = rerender(affected, () => {});
+  if (error) {
+    log("error", "[lit-hmr] Elements failed to render after updating " + moduleUrl + ", rolled back", error);
+    undo.reverse().forEach((step) => step());
+    swapStyles(affected);
+    rerender(affected, () => {});
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  for (const element of affected) {
+    if (error) {
+      element.lastReport = { patched: [], failures: [`render: ${message} (rolled back)`] };
+    } else {
+      element.updates++;
+      element.lastUpdate = Date.now();
+      element.lastReport = changes;
+    }
+    window.__LIT_HMR_PENDING__.elements.push({
+      tagName: element.tagName,
+      instances: element.instances.size,
+      recreated: 0,
+      failures: 0,
+      error: error
+        ? { message: `<${element.tagName}> failed to render: ${message}`, stack: (error as Error)?.stack ?? "" }
+        : null,
+    });
+    dispatchUpdate("lit-hmr:after-update", { tagName: element.tagName, moduleUrl }, [element]);
+  }
+  report(hot, moduleUrl);
+}
+
+/**
+ * Register a version of an inline stylesheet module
+ * (`import styles from './x.css?inline'`). Returns its text, the module's
+ * default export.
+ */
+export function stylesheet(moduleUrl: string, cssText: string): string {
+  const record = window.__LIT_HMR_STYLESHEETS__.get(moduleUrl);
+  if (record) {
+    record.latest = cssText;
+  } else {
+    window.__LIT_HMR_STYLESHEETS__.set(moduleUrl, { applied: cssText, latest: cssText, sheet: null });
+  }
+  return cssText;
+}
+
+/**
+ * Register a version of a stylesheet imported `with { type: 'css' }`.
+ * Every version returns the sheet the first one built, so importers that
+ * re-execute keep adopting the sheet updates are applied to.
+ */
+export function sheet(moduleUrl: string, cssText: string): CSSStyleSheet {
+  stylesheet(moduleUrl, cssText);
+  const record = window.__LIT_HMR_STYLESHEETS__.get(moduleUrl)!;
+  if (!record.sheet) {
+    record.sheet = new CSSStyleSheet();
+    record.sheet.replaceSync(record.applied);
+  }
+  return record.sheet;
+}
+
+/**
+ * Called by an inline stylesheet module's accept handler once its new
+ * version has run. The new text replaces the rules of the sheets built from
+ * the old one (the module's own sheet, `unsafeCSS` results in finalized
+ * styles), which every shadow root adopting them picks up: nothing
+ * re-renders and no state is lost.
+ */
+export function updateStylesheet(hot: HotContextLike | undefined, moduleUrl: string): void {
+  const record = window.__LIT_HMR_STYLESHEETS__.get(moduleUrl);
+  if (!record || record.latest === record.applied) return;
+  const previous = record.applied;
+  const cssText = record.latest;
+  record.applied = cssText;
+
+  // Copies in other registries and registered subclasses have the same
+  // styles in their own finalized list
+  const uses = (style: StyleLike) =>
+    style instanceof CSSStyleSheet ? style === record.sheet : style.cssText === previous;
+  const affected = allRecords().filter((element) => (element.proxyClass.elementStyles ?? []).some(uses));
+  // Text no element style holds as it is was composed into other styles;
+  // the importers run again and build them from the new text
+  if (!record.sheet && affected.length === 0) {
+    hot?.invalidate("[lit-hmr] no element style uses the text of " + moduleUrl + " as it is");
+    return;
+  }
+  for (const element of affected) {
+    dispatchUpdate("lit-hmr:before-update", { tagName: element.tagName, moduleUrl }, [element]);
+  }
+
+  record.sheet?.replaceSync(cssText);
+  for (const element of affected) {
+    for (const style of element.proxyClass.elementStyles ?? []) {
+      if (style instanceof CSSStyleSheet || style.cssText !== previous) continue;
+      style.cssText = cssText;
+      style.styleSheet?.replaceSync(cssText);
+    }
+    // Lit's fallback copies the text into a <style> per style instead, and
+    // roots hydrated from declarative shadow DOM have the server's <style>
+    // with every style's text
+    for (const instance of element.instances) {
+      const root = instance.renderRoot ?? instance.shadowRoot;
+      if (!(root instanceof ShadowRoot)) continue;
+      for (const el of Array.from(root.children)) {
+        if (el.localName !== "style") continue;
+        const text = el.textContent ?? "";
+        if (text === previous || (previous !== "" && text.includes(previous))) {
+          el.textContent = text.replace(previous, () => cssText);
+        }
+      }
+    }
+
+    element.updates++;
+    element.lastUpdate = Date.now();
+    element.lastReport = { patched: ["styles"], failures: [] };
+    window.__LIT_HMR_PENDING__.elements.push({
+      tagName: element.tagName,
+      instances: element.instances.size,
+      recreated: 0,
+      failures: 0,
+      error: null,
+    });
+    dispatchUpdate("lit-hmr:after-update", { tagName: element.tagName, moduleUrl }, [element]);
+  }
+  report(hot, moduleUrl);
+}
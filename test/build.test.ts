@@ -0,0 +1,49 @@
+import { fileURLToPath } from "node:url";
+import { build, type InlineConfig, type PluginOption, type Rollup } from "vite";
+import { describe, expect, it } from "vitest";
+import litHmrPlugins from "../src/index";
+
+const demo = fileURLToPath(new URL("../demo", import.meta.url));
+
+/** Builds the demo in memory and returns each output file's contents */
+async function buildDemo(plugins: PluginOption[], config: InlineConfig = {}): Promise<Record<string, string>> {
+  const result = await build({
+    ...config,
+    root: demo,
+    configFile: false,
+    logLevel: "silent",
+    plugins,
+    esbuild: { target: "es2022" },
+    build: { ...config.build, write: false },
+  });
+  const outputs = (Array.isArray(result) ? result : [result]) as Rollup.RollupOutput[];
+  const files: Record<string, string> = {};
+  for (const { output } of outputs) {
+    for (const file of output) {
+      files[file.fileName] = file.type === "chunk" ? file.code : Buffer.from(file.source).toString("base64");
+    }
+  }
+  return files;
+}
+
+// HMR only exists on the dev server: builds must come out exactly as they
+// would without the plugin
+describe("builds", () => {
+  it("leaves production builds untouched", async () => {
+    const files = await buildDemo(litHmrPlugins({ inspector: true, persistState: true }));
+    expect(Object.keys(files)).toContain("index.html");
+    expect(files).toEqual(await buildDemo([]));
+  });
+
+  it("leaves library builds untouched", async () => {
+    const config: InlineConfig = {
+      build: {
+        lib: { entry: "src/main.ts", formats: ["es"], fileName: "demo" },
+        rollupOptions: { external: /^lit/ },
+      },
+    };
+    const files = await buildDemo(litHmrPlugins(), config);
+    expect(Object.keys(files)).toContain("demo.js");
+    expect(files).toEqual(await buildDemo([], config));
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { litHmr } from "../src/index";
+
+type Hook = (this: unknown, code: string, id: string) => Promise<{ code: string } | null>;
+
+const ID = "/src/counter-controller.ts";
+
+const controller = (constructor: string, method: string) => `import type { ReactiveController, ReactiveControllerHost } from "lit";
+export class CounterController implements ReactiveController {
+  count = 0;
+  constructor(private host: ReactiveControllerHost) {
+    ${constructor}
+  }
+  hostConnected() {
+    ${method}
+  }
+}
+`;
+
+const ELEMENT_ID = "/src/item-list.ts";
+
+const element = (initializer: string) => `import { LitElement } from "lit";
+export class ItemList extends LitElement {
+  static properties = { items: {} };
+  items = ${initializer};
+  label() {
+    return "items";
+  }
+}
+customElements.define("item-list", ItemList);
+`;
+
+/** Transforms each version of a module in turn, as edits arrive; returns the last output */
+async function transformVersions(...versions: string[]): Promise<string> {
+  const plugin = litHmr();
+  const id = versions[0].includes("customElements.define") ? ELEMENT_ID : ID;
+  let code = "";
+  for (const version of versions) {
+    const result = await (plugin.transform as Hook).call({ resolve: async () => null }, version, id);
+    code = result?.code ?? version;
+  }
+  return code;
+}
+
+describe("controller edits", () => {
+  it("hot-swaps method edits", async () => {
+    const code = await transformVersions(
+      controller("host.addController(this);", "this.count = 1;"),
+      controller("host.addController(this);", "this.count = 2;")
+    );
+    expect(code).not.toMatch(/^__litHmr\.requestReload\(/m);
+    expect(code).toContain(`__litHmr.controller(CounterController, ${JSON.stringify(ID)});`);
+  });
+
+  it("reloads for constructor edits", async () => {
+    const code = await transformVersions(
+      controller("host.addController(this);", "this.count = 1;"),
+      controller("host.addController(this);\n    this.count = 10;", "this.count = 1;")
+    );
+    expect(code).toContain(
+      `__litHmr.requestReload("the constructor of controller CounterController changed", ${JSON.stringify(ID)});`
+    );
+  });
+
+  it("reloads for field edits", async () => {
+    const code = await transformVersions(
+      controller("host.addController(this);", "this.count = 1;"),
+      controller("host.addController(this);", "this.count = 1;").replace("count = 0", "count = 5")
+    );
+    expect(code).toContain(
+      `__litHmr.requestReload("the class fields of controller CounterController changed", ${JSON.stringify(ID)});`
+    );
+  });
+});
+
+describe("default edits", () => {
+  it("evaluates built-in constructors in the browser", async () => {
+    const code = await transformVersions(element("new Map()"), element("new Map([[1, 'one']])"));
+    expect(code).toContain(`[["items", "new Map([[1, 'one']])", () => (new Map([[1, 'one']])), null]]`);
+    expect(code).not.toMatch(/^__litHmr\.requestReload\(/m);
+  });
+
+  it("reloads for defaults the browser can't evaluate again", async () => {
+    const code = await transformVersions(element("this.label().split('')"), element("this.label().split('-')"));
+    expect(code).toContain(
+      `__litHmr.requestReload("the default of <item-list>.items changed and can't be applied in place", ${JSON.stringify(ELEMENT_ID)});`
+    );
+  });
+
+  it("leaves unchanged defaults alone", async () => {
+    const code = await transformVersions(element("this.label().split('')"), element("this.label().split('')"));
+    expect(code).not.toMatch(/^__litHmr\.requestReload\(/m);
+  });
+});
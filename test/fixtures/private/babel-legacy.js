@@ -0,0 +1,60 @@
+// Babel 7.29, legacy decorators, class properties and private methods: WeakMap helpers
+var _dec, _class, _descriptor, _clicks, _PrivateCounter_brand;
+function _initializerDefineProperty(e, i, r, l) { r && Object.defineProperty(e, i, { enumerable: r.enumerable, configurable: r.configurable, writable: r.writable, value: r.initializer ? r.initializer.call(l) : void 0 }); }
+function _classPrivateMethodInitSpec(e, a) { _checkPrivateRedeclaration(e, a), a.add(e); }
+function _classPrivateFieldInitSpec(e, t, a) { _checkPrivateRedeclaration(e, t), t.set(e, a); }
+function _checkPrivateRedeclaration(e, t) { if (t.has(e)) throw new TypeError("Cannot initialize the same private elements twice on an object"); }
+function _defineProperty(e, r, t) { return (r = _toPropertyKey(r)) in e ? Object.defineProperty(e, r, { value: t, enumerable: !0, configurable: !0, writable: !0 }) : e[r] = t, e; }
+function _toPropertyKey(t) { var i = _toPrimitive(t, "string"); return "symbol" == typeof i ? i : i + ""; }
+function _toPrimitive(t, r) { if ("object" != typeof t || !t) return t; var e = t[Symbol.toPrimitive]; if (void 0 !== e) { var i = e.call(t, r || "default"); if ("object" != typeof i) return i; throw new TypeError("@@toPrimitive must return a primitive value."); } return ("string" === r ? String : Number)(t); }
+function _classPrivateFieldSet(s, a, r) { return s.set(_assertClassBrand(s, a), r), r; }
+function _classPrivateFieldGet(s, a) { return s.get(_assertClassBrand(s, a)); }
+function _assertClassBrand(e, t, n) { if ("function" == typeof e ? e === t : e.has(t)) return arguments.length < 3 ? t : n; throw new TypeError("Private element is not present on this object"); }
+function _applyDecoratedDescriptor(i, e, r, n, l) { var a = {}; return Object.keys(n).forEach(function (i) { a[i] = n[i]; }), a.enumerable = !!a.enumerable, a.configurable = !!a.configurable, ("value" in a || a.initializer) && (a.writable = !0), a = r.slice().reverse().reduce(function (r, n) { return n(i, e, r) || r; }, a), l && void 0 !== a.initializer && (a.value = a.initializer ? a.initializer.call(l) : void 0, a.initializer = void 0), void 0 === a.initializer ? (Object.defineProperty(i, e, a), null) : a; }
+function _initializerWarningHelper(r, e) { throw Error("Decorating class property failed. Please ensure that transform-class-properties is enabled and runs after the decorators transform."); }
+import * as __litHmr from "virtual:lit-hmr-runtime";
+import { LitElement, html } from "lit";
+import { property } from "lit/decorators.js";
+
+/* @customElement("private-counter") removed by lit-hmr */
+export let PrivateCounter = (_dec = property({
+  type: Number
+}), _class = (_clicks = /*#__PURE__*/new WeakMap(), _PrivateCounter_brand = /*#__PURE__*/new WeakSet(), class PrivateCounter extends LitElement {
+  constructor(...args) {
+    super(...args);
+    _classPrivateMethodInitSpec(this, _PrivateCounter_brand);
+    _initializerDefineProperty(this, "count", _descriptor, this);
+    _classPrivateFieldInitSpec(this, _clicks, 0);
+  }
+  render() {
+    return html`<button @click=${() => _assertClassBrand(_PrivateCounter_brand, this, _increment).call(this)}>${_classPrivateFieldGet(_clicks, this)}</button>`;
+  }
+}), _descriptor = _applyDecoratedDescriptor(_class.prototype, "count", [_dec], {
+  configurable: true,
+  enumerable: true,
+  writable: true,
+  initializer: function () {
+    return 0;
+  }
+}), _class);
+function _increment() {
+  var _this$clicks, _this$clicks2;
+  _classPrivateFieldSet(_clicks, this, (_this$clicks = _classPrivateFieldGet(_clicks, this), _this$clicks2 = _this$clicks++, _this$clicks)), _this$clicks2;
+}
+__litHmr.define("private-counter", __litHmr.defaults(PrivateCounter, [["count", "0", () => 0, "0"]]), "/src/private-counter.ts");
+if (import.meta.hot) {
+  import.meta.hot.accept(newModule => {
+    // Vite still calls this when the new version threw
+    if (!newModule) {
+      __litHmr.rollback(import.meta.hot, "/src/private-counter.ts");
+      return;
+    }
+    // The new module's top-level code has already run,
+    // which called __litHmr.define with the updated class.
+    const reason = __litHmr.takeReloadReason();
+    __litHmr.report(import.meta.hot, "/src/private-counter.ts", reason);
+    if (reason) {
+      import.meta.hot.invalidate('[lit-hmr] ' + reason);
+    }
+  });
+}
\ No newline at end of file
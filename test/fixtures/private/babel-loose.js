@@ -0,0 +1,58 @@
+// Babel 7.29, legacy decorators, loose class properties and private methods: loose keys
+var _dec, _class, _descriptor, _clicks, _increment;
+function _initializerDefineProperty(e, i, r, l) { r && Object.defineProperty(e, i, { enumerable: r.enumerable, configurable: r.configurable, writable: r.writable, value: r.initializer ? r.initializer.call(l) : void 0 }); }
+function _classPrivateFieldLooseBase(e, t) { if (!{}.hasOwnProperty.call(e, t)) throw new TypeError("attempted to use private field on non-instance"); return e; }
+var id = 0;
+function _classPrivateFieldLooseKey(e) { return "__private_" + id++ + "_" + e; }
+function _applyDecoratedDescriptor(i, e, r, n, l) { var a = {}; return Object.keys(n).forEach(function (i) { a[i] = n[i]; }), a.enumerable = !!a.enumerable, a.configurable = !!a.configurable, ("value" in a || a.initializer) && (a.writable = !0), a = r.slice().reverse().reduce(function (r, n) { return n(i, e, r) || r; }, a), l && void 0 !== a.initializer && (a.value = a.initializer ? a.initializer.call(l) : void 0, a.initializer = void 0), void 0 === a.initializer ? (Object.defineProperty(i, e, a), null) : a; }
+function _initializerWarningHelper(r, e) { throw Error("Decorating class property failed. Please ensure that transform-class-properties is enabled and runs after the decorators transform."); }
+import * as __litHmr from "virtual:lit-hmr-runtime";
+import { LitElement, html } from "lit";
+import { property } from "lit/decorators.js";
+
+/* @customElement("private-counter") removed by lit-hmr */
+export let PrivateCounter = (_dec = property({
+  type: Number
+}), _class = (_clicks = /*#__PURE__*/_classPrivateFieldLooseKey("clicks"), _increment = /*#__PURE__*/_classPrivateFieldLooseKey("increment"), class PrivateCounter extends LitElement {
+  constructor(...args) {
+    super(...args);
+    Object.defineProperty(this, _increment, {
+      value: _increment2
+    });
+    _initializerDefineProperty(this, "count", _descriptor, this);
+    Object.defineProperty(this, _clicks, {
+      writable: true,
+      value: 0
+    });
+  }
+  render() {
+    return html`<button @click=${() => _classPrivateFieldLooseBase(this, _increment)[_increment]()}>${_classPrivateFieldLooseBase(this, _clicks)[_clicks]}</button>`;
+  }
+}), _descriptor = _applyDecoratedDescriptor(_class.prototype, "count", [_dec], {
+  configurable: true,
+  enumerable: true,
+  writable: true,
+  initializer: function () {
+    return 0;
+  }
+}), _class);
+function _increment2() {
+  _classPrivateFieldLooseBase(this, _clicks)[_clicks]++;
+}
+__litHmr.define("private-counter", __litHmr.defaults(PrivateCounter, [["count", "0", () => 0, "0"]]), "/src/private-counter.ts");
+if (import.meta.hot) {
+  import.meta.hot.accept(newModule => {
+    // Vite still calls this when the new version threw
+    if (!newModule) {
+      __litHmr.rollback(import.meta.hot, "/src/private-counter.ts");
+      return;
+    }
+    // The new module's top-level code has already run,
+    // which called __litHmr.define with the updated class.
+    const reason = __litHmr.takeReloadReason();
+    __litHmr.report(import.meta.hot, "/src/private-counter.ts", reason);
+    if (reason) {
+      import.meta.hot.invalidate('[lit-hmr] ' + reason);
+    }
+  });
+}
\ No newline at end of file
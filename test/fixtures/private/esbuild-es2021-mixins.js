@@ -0,0 +1,67 @@
+// esbuild 0.28, target es2021: private members of mixins in WeakMaps
+var __typeError = (msg) => {
+  throw TypeError(msg);
+};
+var __accessCheck = (obj, member, msg) => member.has(obj) || __typeError("Cannot " + msg);
+var __privateGet = (obj, member, getter) => (__accessCheck(obj, member, "read from private field"), getter ? getter.call(obj) : member.get(obj));
+var __privateAdd = (obj, member, value) => member.has(obj) ? __typeError("Cannot add the same private member more than once") : member instanceof WeakSet ? member.add(obj) : member.set(obj, value);
+var __privateSet = (obj, member, value, setter) => (__accessCheck(obj, member, "write to private field"), setter ? setter.call(obj, value) : member.set(obj, value), value);
+var __privateWrapper = (obj, member, setter, getter) => ({
+  set _(value) {
+    __privateSet(obj, member, value, setter);
+  },
+  get _() {
+    return __privateGet(obj, member, getter);
+  }
+});
+var _clicks;
+import * as __litHmr from "virtual:lit-hmr-runtime";
+import { LitElement, html } from "lit";
+const Clicks = (base) => {
+  var _clicks2, _a;
+  return _a = class extends base {
+    constructor() {
+      super(...arguments);
+      __privateAdd(this, _clicks2, 0);
+    }
+    click() {
+      __privateWrapper(this, _clicks2)._++;
+    }
+  }, _clicks2 = new WeakMap(), _a;
+};
+const Focus = (base) => {
+  var _clicks2, _a;
+  return _a = class extends base {
+    constructor() {
+      super(...arguments);
+      __privateAdd(this, _clicks2, false);
+    }
+    focus() {
+      __privateSet(this, _clicks2, true);
+    }
+  }, _clicks2 = new WeakMap(), _a;
+};
+export class PrivateCounter extends Focus(Clicks(LitElement)) {
+  constructor() {
+    super(...arguments);
+    __privateAdd(this, _clicks, "own");
+  }
+  render() {
+    return html`${__privateGet(this, _clicks)}`;
+  }
+}
+_clicks = new WeakMap();
+__litHmr.define("private-counter", PrivateCounter, "/src/private-counter.ts");
+if (import.meta.hot) {
+  import.meta.hot.accept((newModule) => {
+    if (!newModule) {
+      __litHmr.rollback(import.meta.hot, "/src/private-counter.ts");
+      return;
+    }
+    const reason = __litHmr.takeReloadReason();
+    __litHmr.report(import.meta.hot, "/src/private-counter.ts", reason);
+    if (reason) {
+      import.meta.hot.invalidate("[lit-hmr] " + reason);
+    }
+  });
+}
@@ -0,0 +1,27 @@
+// esbuild 0.28, target es2022: native private members
+import * as __litHmr from "virtual:lit-hmr-runtime";
+import { LitElement, html } from "lit";
+export class PrivateCounter extends LitElement {
+  static properties = { count: { type: Number } };
+  #clicks = 0;
+  #increment() {
+    this.#clicks++;
+  }
+  render() {
+    return html`<button @click=${() => this.#increment()}>${this.#clicks}</button>`;
+  }
+}
+__litHmr.define("private-counter", __litHmr.defaults(PrivateCounter, [["count", null, null, null]]), "/src/private-counter.ts");
+if (import.meta.hot) {
+  import.meta.hot.accept((newModule) => {
+    if (!newModule) {
+      __litHmr.rollback(import.meta.hot, "/src/private-counter.ts");
+      return;
+    }
+    const reason = __litHmr.takeReloadReason();
+    __litHmr.report(import.meta.hot, "/src/private-counter.ts", reason);
+    if (reason) {
+      import.meta.hot.invalidate("[lit-hmr] " + reason);
+    }
+  });
+}
@@ -0,0 +1,129 @@
+// SWC 1.16, target es2021, legacy decorators: WeakMap helpers
+function _check_private_redeclaration(obj, privateCollection) {
+    if (privateCollection.has(obj)) {
+        throw new TypeError("Cannot initialize the same private elements twice on an object");
+    }
+}
+function _class_apply_descriptor_get(receiver, descriptor) {
+    if (descriptor.get) return descriptor.get.call(receiver);
+    return descriptor.value;
+}
+function _class_apply_descriptor_set(receiver, descriptor, value) {
+    if (descriptor.set) descriptor.set.call(receiver, value);
+    else {
+        if (!descriptor.writable) {
+            throw new TypeError("attempted to set read only private field");
+        }
+        descriptor.value = value;
+    }
+}
+function _class_apply_descriptor_update(receiver, descriptor) {
+    if (descriptor.set) {
+        if (!descriptor.get) throw new TypeError("attempted to read set only private field");
+        if (!("__destrWrapper" in descriptor)) {
+            descriptor.__destrWrapper = {
+                set value (v){
+                    descriptor.set.call(receiver, v);
+                },
+                get value () {
+                    return descriptor.get.call(receiver);
+                }
+            };
+        }
+        return descriptor.__destrWrapper;
+    } else {
+        if (!descriptor.writable) {
+            throw new TypeError("attempted to set read only private field");
+        }
+        return descriptor;
+    }
+}
+function _class_extract_field_descriptor(receiver, privateMap, action) {
+    if (!privateMap.has(receiver)) throw new TypeError("attempted to " + action + " private field on non-instance");
+    return privateMap.get(receiver);
+}
+function _class_private_field_get(receiver, privateMap) {
+    var descriptor = _class_extract_field_descriptor(receiver, privateMap, "get");
+    return _class_apply_descriptor_get(receiver, descriptor);
+}
+function _class_private_field_init(obj, privateMap, value) {
+    _check_private_redeclaration(obj, privateMap);
+    privateMap.set(obj, value);
+}
+function _class_private_field_set(receiver, privateMap, value) {
+    var descriptor = _class_extract_field_descriptor(receiver, privateMap, "set");
+    _class_apply_descriptor_set(receiver, descriptor, value);
+    return value;
+}
+function _class_private_field_update(receiver, privateMap) {
+    var descriptor = _class_extract_field_descriptor(receiver, privateMap, "update");
+    return _class_apply_descriptor_update(receiver, descriptor);
+}
+function _class_private_method_get(receiver, privateSet, fn) {
+    if (!privateSet.has(receiver)) throw new TypeError("attempted to get private field on non-instance");
+    return fn;
+}
+function _class_private_method_init(obj, privateSet) {
+    _check_private_redeclaration(obj, privateSet);
+    privateSet.add(obj);
+}
+function _ts_decorate(decorators, target, key, desc) {
+    var c = arguments.length, r = c < 3 ? target : desc === null ? desc = Object.getOwnPropertyDescriptor(target, key) : desc, d;
+    if (typeof Reflect === "object" && typeof Reflect.decorate === "function") {
+        r = Reflect.decorate(decorators, target, key, desc);
+    } else {
+        for(var i = decorators.length - 1; i >= 0; i--){
+            if (d = decorators[i]) {
+                r = (c < 3 ? d(r) : c > 3 ? d(target, key, r) : d(target, key)) || r;
+            }
+        }
+    }
+    return c > 3 && r && Object.defineProperty(target, key, r), r;
+}
+import * as __litHmr from "virtual:lit-hmr-runtime";
+import { LitElement, html } from "lit";
+import { property } from "lit/decorators.js";
+var _clicks = /*#__PURE__*/ new WeakMap(), _increment = /*#__PURE__*/ new WeakSet();
+/* @customElement("private-counter") removed by lit-hmr */ export class PrivateCounter extends LitElement {
+    render() {
+        return html`<button @click=${()=>_class_private_method_get(this, _increment, increment).call(this)}>${_class_private_field_get(this, _clicks)}</button>`;
+    }
+    constructor(...args){
+        super(...args), _class_private_method_init(this, _increment), _class_private_field_init(this, _clicks, {
+            writable: true,
+            value: void 0
+        }), this.count = 0, _class_private_field_set(this, _clicks, 0);
+    }
+}
+function increment() {
+    _class_private_field_update(this, _clicks).value++;
+}
+_ts_decorate([
+    property({
+        type: Number
+    })
+], PrivateCounter.prototype, "count", void 0);
+__litHmr.define("private-counter", __litHmr.defaults(PrivateCounter, [
+    [
+        "count",
+        "0",
+        ()=>0,
+        "0"
+    ]
+]), "/src/private-counter.ts");
+if (import.meta.hot) {
+    import.meta.hot.accept((newModule)=>{
+        // Vite still calls this when the new version threw
+        if (!newModule) {
+            __litHmr.rollback(import.meta.hot, "/src/private-counter.ts");
+            return;
+        }
+        // The new module's top-level code has already run,
+        // which called __litHmr.define with the updated class.
+        const reason = __litHmr.takeReloadReason();
+        __litHmr.report(import.meta.hot, "/src/private-counter.ts", reason);
+        if (reason) {
+            import.meta.hot.invalidate('[lit-hmr] ' + reason);
+        }
+    });
+}
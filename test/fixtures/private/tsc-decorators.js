@@ -0,0 +1,81 @@
+// tsc 5.9, target ES2022, standard decorators: native `accessor` storage
+var __esDecorate = (this && this.__esDecorate) || function (ctor, descriptorIn, decorators, contextIn, initializers, extraInitializers) {
+    function accept(f) { if (f !== void 0 && typeof f !== "function") throw new TypeError("Function expected"); return f; }
+    var kind = contextIn.kind, key = kind === "getter" ? "get" : kind === "setter" ? "set" : "value";
+    var target = !descriptorIn && ctor ? contextIn["static"] ? ctor : ctor.prototype : null;
+    var descriptor = descriptorIn || (target ? Object.getOwnPropertyDescriptor(target, contextIn.name) : {});
+    var _, done = false;
+    for (var i = decorators.length - 1; i >= 0; i--) {
+        var context = {};
+        for (var p in contextIn) context[p] = p === "access" ? {} : contextIn[p];
+        for (var p in contextIn.access) context.access[p] = contextIn.access[p];
+        context.addInitializer = function (f) { if (done) throw new TypeError("Cannot add initializers after decoration has completed"); extraInitializers.push(accept(f || null)); };
+        var result = (0, decorators[i])(kind === "accessor" ? { get: descriptor.get, set: descriptor.set } : descriptor[key], context);
+        if (kind === "accessor") {
+            if (result === void 0) continue;
+            if (result === null || typeof result !== "object") throw new TypeError("Object expected");
+            if (_ = accept(result.get)) descriptor.get = _;
+            if (_ = accept(result.set)) descriptor.set = _;
+            if (_ = accept(result.init)) initializers.unshift(_);
+        }
+        else if (_ = accept(result)) {
+            if (kind === "field") initializers.unshift(_);
+            else descriptor[key] = _;
+        }
+    }
+    if (target) Object.defineProperty(target, contextIn.name, descriptor);
+    done = true;
+};
+var __runInitializers = (this && this.__runInitializers) || function (thisArg, initializers, value) {
+    var useValue = arguments.length > 2;
+    for (var i = 0; i < initializers.length; i++) {
+        value = useValue ? initializers[i].call(thisArg, value) : initializers[i].call(thisArg);
+    }
+    return useValue ? value : void 0;
+};
+import * as __litHmr from "virtual:lit-hmr-runtime";
+import { LitElement, html } from "lit";
+import { property } from "lit/decorators.js";
+/* @customElement("private-counter") removed by lit-hmr */
+let PrivateCounter = (() => {
+    let _classSuper = LitElement;
+    let _count_decorators;
+    let _count_initializers = [];
+    let _count_extraInitializers = [];
+    return class PrivateCounter extends _classSuper {
+        static {
+            const _metadata = typeof Symbol === "function" && Symbol.metadata ? Object.create(_classSuper[Symbol.metadata] ?? null) : void 0;
+            _count_decorators = [property({ type: Number })];
+            __esDecorate(this, null, _count_decorators, { kind: "accessor", name: "count", static: false, private: false, access: { has: obj => "count" in obj, get: obj => obj.count, set: (obj, value) => { obj.count = value; } }, metadata: _metadata }, _count_initializers, _count_extraInitializers);
+            if (_metadata) Object.defineProperty(this, Symbol.metadata, { enumerable: true, configurable: true, writable: true, value: _metadata });
+        }
+        #count_accessor_storage = __runInitializers(this, _count_initializers, 0);
+        get count() { return this.#count_accessor_storage; }
+        set count(value) { this.#count_accessor_storage = value; }
+        #clicks = (__runInitializers(this, _count_extraInitializers), 0);
+        #increment() {
+            this.#clicks++;
+        }
+        render() {
+            return html `<button @click=${() => this.#increment()}>${this.#clicks}</button>`;
+        }
+    };
+})();
+export { PrivateCounter };
+__litHmr.define("private-counter", __litHmr.defaults(PrivateCounter, [["count", "0", () => (0), "0"]]), "/src/private-counter.ts");
+if (import.meta.hot) {
+    import.meta.hot.accept((newModule) => {
+        // Vite still calls this when the new version threw
+        if (!newModule) {
+            __litHmr.rollback(import.meta.hot, "/src/private-counter.ts");
+            return;
+        }
+        // The new module's top-level code has already run,
+        // which called __litHmr.define with the updated class.
+        const reason = __litHmr.takeReloadReason();
+        __litHmr.report(import.meta.hot, "/src/private-counter.ts", reason);
+        if (reason) {
+            import.meta.hot.invalidate('[lit-hmr] ' + reason);
+        }
+    });
+}
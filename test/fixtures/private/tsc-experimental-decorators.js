@@ -0,0 +1,58 @@
+// tsc 5.9, target ES2021, experimentalDecorators: WeakMap helpers
+var __decorate = (this && this.__decorate) || function (decorators, target, key, desc) {
+    var c = arguments.length, r = c < 3 ? target : desc === null ? desc = Object.getOwnPropertyDescriptor(target, key) : desc, d;
+    if (typeof Reflect === "object" && typeof Reflect.decorate === "function") r = Reflect.decorate(decorators, target, key, desc);
+    else for (var i = decorators.length - 1; i >= 0; i--) if (d = decorators[i]) r = (c < 3 ? d(r) : c > 3 ? d(target, key, r) : d(target, key)) || r;
+    return c > 3 && r && Object.defineProperty(target, key, r), r;
+};
+var __classPrivateFieldGet = (this && this.__classPrivateFieldGet) || function (receiver, state, kind, f) {
+    if (kind === "a" && !f) throw new TypeError("Private accessor was defined without a getter");
+    if (typeof state === "function" ? receiver !== state || !f : !state.has(receiver)) throw new TypeError("Cannot read private member from an object whose class did not declare it");
+    return kind === "m" ? f : kind === "a" ? f.call(receiver) : f ? f.value : state.get(receiver);
+};
+var __classPrivateFieldSet = (this && this.__classPrivateFieldSet) || function (receiver, state, value, kind, f) {
+    if (kind === "m") throw new TypeError("Private method is not writable");
+    if (kind === "a" && !f) throw new TypeError("Private accessor was defined without a setter");
+    if (typeof state === "function" ? receiver !== state || !f : !state.has(receiver)) throw new TypeError("Cannot write private member to an object whose class did not declare it");
+    return (kind === "a" ? f.call(receiver, value) : f ? f.value = value : state.set(receiver, value)), value;
+};
+var _PrivateCounter_instances, _PrivateCounter_clicks, _PrivateCounter_increment;
+import * as __litHmr from "virtual:lit-hmr-runtime";
+import { LitElement, html } from "lit";
+import { property } from "lit/decorators.js";
+/* @customElement("private-counter") removed by lit-hmr */
+export class PrivateCounter extends LitElement {
+    constructor() {
+        super(...arguments);
+        _PrivateCounter_instances.add(this);
+        this.count = 0;
+        _PrivateCounter_clicks.set(this, 0);
+    }
+    render() {
+        return html `<button @click=${() => __classPrivateFieldGet(this, _PrivateCounter_instances, "m", _PrivateCounter_increment).call(this)}>${__classPrivateFieldGet(this, _PrivateCounter_clicks, "f")}</button>`;
+    }
+}
+_PrivateCounter_clicks = new WeakMap(), _PrivateCounter_instances = new WeakSet(), _PrivateCounter_increment = function _PrivateCounter_increment() {
+    var _a;
+    __classPrivateFieldSet(this, _PrivateCounter_clicks, (_a = __classPrivateFieldGet(this, _PrivateCounter_clicks, "f"), _a++, _a), "f");
+};
+__decorate([
+    property({ type: Number })
+], PrivateCounter.prototype, "count", void 0);
+__litHmr.define("private-counter", __litHmr.defaults(PrivateCounter, [["count", "0", () => (0), "0"]]), "/src/private-counter.ts");
+if (import.meta.hot) {
+    import.meta.hot.accept((newModule) => {
+        // Vite still calls this when the new version threw
+        if (!newModule) {
+            __litHmr.rollback(import.meta.hot, "/src/private-counter.ts");
+            return;
+        }
+        // The new module's top-level code has already run,
+        // which called __litHmr.define with the updated class.
+        const reason = __litHmr.takeReloadReason();
+        __litHmr.report(import.meta.hot, "/src/private-counter.ts", reason);
+        if (reason) {
+            import.meta.hot.invalidate('[lit-hmr] ' + reason);
+        }
+    });
+}
@@ -0,0 +1,19 @@
+import { LitElement, html, css } from "lit";
+
+export class Braces extends LitElement {
+  static styles = css`
+    :host { display: block; }
+  `;
+
+  open = "{";
+  close = '}';
+
+  render() {
+    // customElements.define("commented-out", Braces) }
+    return html`<p>${this.open}${"}"}${`{${this.close}`}</p>`;
+  }
+}
+
+const note = "customElements.define('not-a-call', Braces)";
+customElements.define("brace-element", Braces);
+export { note };
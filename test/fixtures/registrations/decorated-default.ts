@@ -0,0 +1,9 @@
+import { LitElement, html } from "lit";
+import { customElement } from "lit/decorators.js";
+
+@customElement("decorated-default")
+export default class extends LitElement {
+  render() {
+    return html`<p>default</p>`;
+  }
+}
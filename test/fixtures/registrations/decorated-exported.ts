@@ -0,0 +1,9 @@
+import { LitElement, html } from "lit";
+import { customElement } from "lit/decorators.js";
+
+@customElement("decorated-exported")
+export class DecoratedExported extends LitElement {
+  render() {
+    return html`<p>exported</p>`;
+  }
+}
@@ -0,0 +1,17 @@
+import { LitElement, html } from "lit";
+import { customElement, property } from "lit/decorators.js";
+
+@customElement("decorated-local")
+class DecoratedLocal extends LitElement {
+  @property() label = "local";
+
+  render() {
+    return html`<p>${this.label}</p>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "decorated-local": DecoratedLocal;
+  }
+}
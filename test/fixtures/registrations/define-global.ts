@@ -0,0 +1,16 @@
+import { LitElement, html } from "lit";
+
+class WindowDefined extends LitElement {
+  render() {
+    return html`<p>window</p>`;
+  }
+}
+
+class GlobalDefined extends LitElement {
+  render() {
+    return html`<p>globalThis</p>`;
+  }
+}
+
+window.customElements.define("window-defined", WindowDefined);
+globalThis.customElements.define("global-defined", GlobalDefined);
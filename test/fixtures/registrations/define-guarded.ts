@@ -0,0 +1,11 @@
+import { LitElement, html } from "lit";
+
+export class Guarded extends LitElement {
+  render() {
+    return html`<p>guarded</p>`;
+  }
+}
+
+if (!customElements.get("guarded-element")) {
+  customElements.define("guarded-element", Guarded);
+}
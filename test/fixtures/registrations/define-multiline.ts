@@ -0,0 +1,23 @@
+import { LitElement, html } from "lit";
+
+const PREFIX = "app";
+
+export class MultiLine extends LitElement {
+  render() {
+    return html`<p>multi-line</p>`;
+  }
+}
+
+customElements.define(
+  `${PREFIX}-multi-line`,
+  MultiLine,
+);
+
+customElements.define(
+  PREFIX + "-inline",
+  class extends LitElement {
+    render() {
+      return html`<p>inline</p>`;
+    }
+  }
+);
@@ -0,0 +1,11 @@
+import { LitElement, html } from "lit";
+
+export class StaticBlock extends LitElement {
+  static {
+    customElements.define("static-block", this);
+  }
+
+  render() {
+    return html`<p>static block</p>`;
+  }
+}
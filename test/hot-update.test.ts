@@ -0,0 +1,60 @@
+import type { HmrContext, ModuleNode } from "vite";
+import { describe, expect, it, vi } from "vitest";
+import { litHmr } from "../src/index";
+
+type Hook = (this: unknown, ...args: unknown[]) => unknown;
+
+const element = `import { LitElement } from "lit";
+import { label } from "./child";
+export class Parent extends LitElement {}
+customElements.define("parent-element", Parent);
+`;
+
+/** A module graph node with just what the plugin reads */
+function moduleNode(id: string, importers: ModuleNode[] = []): ModuleNode {
+  return {
+    id,
+    type: "js",
+    isSelfAccepting: false,
+    importers: new Set(importers),
+    acceptedHmrDeps: new Set(),
+  } as unknown as ModuleNode;
+}
+
+/** Transforms the parent element module, then hands the plugin an edit of its child */
+async function hotUpdate(child: string) {
+  const plugin = litHmr();
+  await (plugin.transform as Hook).call({ resolve: async () => null }, element, "/src/parent.ts");
+
+  const parent = moduleNode("/src/parent.ts");
+  const changed = moduleNode("/src/child.ts", [parent]);
+  const send = vi.fn();
+  const ctx = {
+    file: "/src/child.ts",
+    timestamp: Date.now(),
+    modules: [changed],
+    read: async () => child,
+    server: { ws: { send }, moduleGraph: { invalidateModule: vi.fn() } },
+  } as unknown as HmrContext;
+  const boundaries = await (plugin.handleHotUpdate as Hook).call({}, ctx);
+  return { boundaries, send, parent };
+}
+
+describe("hot updates", () => {
+  it("hands plain modules to the element modules importing them", async () => {
+    const { boundaries, send, parent } = await hotUpdate(`export const label = "edited";\n`);
+    expect(boundaries).toEqual([parent]);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("reloads for modules that register elements without lit-hmr", async () => {
+    const { boundaries, send } = await hotUpdate(`// lit-hmr-disable
+import { LitElement } from "lit";
+export const label = "edited";
+export class Child extends LitElement {}
+customElements.define("child-element", Child);
+`);
+    expect(boundaries).toEqual([]);
+    expect(send).toHaveBeenCalledWith({ type: "full-reload", path: "*" });
+  });
+});
@@ -0,0 +1,102 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { findPrivateState } from "../src/analyze";
+import { litHmrPost } from "../src/index";
+
+const ID = "/src/private-counter.ts";
+
+const read = (name: string) =>
+  readFileSync(fileURLToPath(new URL(`./fixtures/private/${name}.js`, import.meta.url)), "utf8");
+
+/** Runs the post plugin's transform, as Vite would on the compiled module */
+function transform(code: string): string {
+  const plugin = litHmrPost();
+  const hook = plugin.transform as (this: unknown, code: string, id: string) => { code: string } | null;
+  const result = hook.call({}, code, ID);
+  if (!result) throw new Error(`${ID} was not transformed`);
+  return result.code;
+}
+
+// Each fixture is a compiler's output for the same element, after the pre
+// plugin: with the native private names or the store keys it should have
+const compilers: Array<[string, { names: string[]; stores: string[] }]> = [
+  [
+    "esbuild-native",
+    { names: ["__litHmrPrivate_PrivateCounter_clicks", "__litHmrPrivate_PrivateCounter_increment"], stores: [] },
+  ],
+  [
+    "esbuild-decorators",
+    {
+      names: [],
+      stores: ["PrivateCounter#_count", "PrivateCounter#_clicks", "PrivateCounter#_PrivateCounter_instances"],
+    },
+  ],
+  ["esbuild-es2021-mixins", { names: [], stores: ["Clicks#_clicks", "Focus#_clicks", "PrivateCounter#_clicks"] }],
+  [
+    "tsc-experimental-decorators",
+    { names: [], stores: ["PrivateCounter#_PrivateCounter_clicks", "PrivateCounter#_PrivateCounter_instances"] },
+  ],
+  [
+    "tsc-decorators",
+    {
+      names: [
+        "__litHmrPrivate_PrivateCounter_count_accessor_storage",
+        "__litHmrPrivate_PrivateCounter_clicks",
+        "__litHmrPrivate_PrivateCounter_increment",
+      ],
+      stores: [],
+    },
+  ],
+  [
+    "babel-decorators",
+    {
+      names: [
+        "__litHmrPrivate_PrivateCounter_A",
+        "__litHmrPrivate_PrivateCounter_clicks",
+        "__litHmrPrivate_PrivateCounter_increment",
+      ],
+      stores: [],
+    },
+  ],
+  ["babel-legacy", { names: [], stores: ["PrivateCounter#_clicks", "PrivateCounter#_PrivateCounter_brand"] }],
+  ["babel-loose", { names: [], stores: ["PrivateCounter#_clicks", "PrivateCounter#_increment"] }],
+  [
+    "swc-decorators",
+    { names: [], stores: ["PrivateCounter#____private_count_", "PrivateCounter#_clicks", "PrivateCounter#_increment"] },
+  ],
+  ["swc-legacy", { names: [], stores: ["PrivateCounter#_clicks", "PrivateCounter#_increment"] }],
+];
+
+describe.each(compilers)("%s", (name, expected) => {
+  const code = read(name);
+
+  it("finds the private member state", () => {
+    const state = findPrivateState(code);
+    expect([...new Set(state?.privateNames.map((privateName) => privateName.replacement))]).toEqual(expected.names);
+    expect(state?.stores.map((store) => store.key)).toEqual(expected.stores);
+  });
+
+  it("keeps private members reachable across versions", () => {
+    const output = transform(code);
+    for (const key of expected.stores) {
+      expect(output).toContain(`__litHmr.privateStore(${JSON.stringify(ID)}, ${JSON.stringify(key)}, `);
+    }
+    expect(findPrivateState(output)?.privateNames).toEqual([]);
+  });
+});
+
+describe("private state", () => {
+  it("leaves modules without private members alone", () => {
+    expect(findPrivateState(`import * as __litHmr from "virtual:lit-hmr-runtime";\nclass A { x = 1; }`)).toEqual({
+      privateNames: [],
+      stores: [],
+    });
+  });
+
+  it("gives mixin classes reusing a binding their own stores", () => {
+    const stores = findPrivateState(read("esbuild-es2021-mixins"))?.stores ?? [];
+    const clicks = stores.filter((store) => store.name === "_clicks2");
+    expect(clicks.map((store) => store.key)).toEqual(["Clicks#_clicks", "Focus#_clicks"]);
+  });
+});
@@ -0,0 +1,88 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { analyzeModule } from "../src/analyze";
+import { litHmr } from "../src/index";
+
+const fixture = (name: string) => fileURLToPath(new URL(`./fixtures/registrations/${name}`, import.meta.url));
+
+/** Runs the pre plugin's transform, as Vite would on the dev server */
+async function transform(id: string): Promise<string> {
+  const plugin = litHmr();
+  const hook = plugin.transform as (this: unknown, code: string, id: string) => Promise<{ code: string } | null>;
+  const context = { resolve: async () => null };
+  const result = await hook.call(context, readFileSync(id, "utf8"), id);
+  if (!result) throw new Error(`${id} was not transformed`);
+  return result.code;
+}
+
+// Each fixture is one shape registrations are written in, with the
+// registrations it holds as [kind, tag source, class source]
+const shapes: Array<[string, Array<[string, string, string | null]>]> = [
+  ["decorated-local.ts", [["decorator", '"decorated-local"', "DecoratedLocal"]]],
+  ["decorated-exported.ts", [["decorator", '"decorated-exported"', "DecoratedExported"]]],
+  ["decorated-default.ts", [["decorator", '"decorated-default"', null]]],
+  [
+    "define-multiline.ts",
+    [
+      ["define", "`${PREFIX}-multi-line`", "MultiLine"],
+      ["define", 'PREFIX + "-inline"', expect.stringMatching(/^class extends LitElement \{[\s\S]*\}$/)],
+    ],
+  ],
+  [
+    "define-global.ts",
+    [
+      ["define", '"window-defined"', "WindowDefined"],
+      ["define", '"global-defined"', "GlobalDefined"],
+    ],
+  ],
+  ["define-static-block.ts", [["define", '"static-block"', "this"]]],
+  ["define-guarded.ts", [["define", '"guarded-element"', "Guarded"]]],
+  ["braces.ts", [["define", '"brace-element"', "Braces"]]],
+];
+
+describe.each(shapes)("%s", (name, expected) => {
+  const id = fixture(name);
+
+  it("finds every registration", () => {
+    const analysis = analyzeModule(readFileSync(id, "utf8"), id);
+    expect(analysis?.registrations.map((reg) => [reg.kind, reg.tagExpr, reg.classExpr])).toEqual(expected);
+  });
+
+  it("registers each element with the runtime", async () => {
+    const code = await transform(id);
+    for (const [, tagExpr] of expected) {
+      // Arguments stay on the lines they were written on
+      const escaped = tagExpr.replace(/[$()*+.?[\\\]^{|}]/g, "\\$&");
+      expect(code).toMatch(new RegExp(`__litHmr\\.define\\(\\s*${escaped},\\s`));
+    }
+    // Nothing is left for the browser's registry to define
+    expect(analyzeModule(code, id)?.registrations).toEqual([]);
+  });
+});
+
+describe("registration shapes", () => {
+  it("gives anonymous default exports a name to register", async () => {
+    const code = await transform(fixture("decorated-default.ts"));
+    expect(code).toContain("export default class __litHmrDefaultElement extends LitElement");
+    expect(code).toContain('__litHmr.define("decorated-default", __litHmrDefaultElement, ');
+  });
+
+  it("records the decorated class's property defaults", async () => {
+    const code = await transform(fixture("decorated-local.ts"));
+    expect(code).toContain('__litHmr.define("decorated-local", __litHmr.defaults(DecoratedLocal, [["label", ');
+  });
+
+  it("lets guarded defines run again", async () => {
+    const id = fixture("define-guarded.ts");
+    expect(analyzeModule(readFileSync(id, "utf8"), id)?.guards).toHaveLength(1);
+    const code = await transform(id);
+    expect(code).toContain("if (!((tagName) => __litHmr.get(tagName, ");
+  });
+
+  it("leaves registrations in strings and comments alone", async () => {
+    const code = await transform(fixture("braces.ts"));
+    expect(code).toContain(`const note = "customElements.define('not-a-call', Braces)";`);
+    expect(code).toContain('// customElements.define("commented-out", Braces) }');
+  });
+});
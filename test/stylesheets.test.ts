@@ -0,0 +1,51 @@
+import type { HmrContext, ModuleNode } from "vite";
+import { describe, expect, it } from "vitest";
+import { litHmrPost, type PluginOptions } from "../src/index";
+
+type Hook = (this: unknown, ...args: unknown[]) => unknown;
+
+const ID = "/src/card.css?inline";
+const SHEET_ID = "/src/card.css?inline&lit-hmr-sheet";
+
+// Vite's output for an inline stylesheet in dev
+const inline = (css: string) => `export default ${JSON.stringify(css)}`;
+
+function transform(css: string, id = ID, options: PluginOptions = {}) {
+  const plugin = litHmrPost(options);
+  const result = (plugin.transform as Hook).call({}, inline(css), id) as { code: string } | null;
+  return { plugin, code: result?.code ?? null };
+}
+
+describe("stylesheets", () => {
+  it("registers inline stylesheets with the runtime", () => {
+    expect(transform(":host { color: red; }").code).toContain(
+      `export default __litHmr.stylesheet(${JSON.stringify(ID)}, ":host { color: red; }");`
+    );
+  });
+
+  it("leaves excluded stylesheets to Vite", () => {
+    expect(transform(":host { color: red; }", ID, { exclude: /card\.css/ }).code).toBeNull();
+  });
+
+  it("leaves disabled stylesheets to Vite", () => {
+    expect(transform("/* lit-hmr-disable */\n:host { color: red; }").code).toBeNull();
+  });
+
+  it("still builds a CSSStyleSheet for disabled stylesheets imported as one", () => {
+    const { code } = transform("/* lit-hmr-disable */\n:host { color: red; }", SHEET_ID);
+    expect(code).toContain("sheet.replaceSync(");
+    expect(code).not.toContain("__litHmr");
+  });
+
+  it("stops accepting updates once an edit disables the stylesheet", async () => {
+    const { plugin } = transform(":host { color: red; }");
+    const mod = { id: ID, importers: new Set() } as unknown as ModuleNode & { isSelfAccepting?: boolean };
+    const ctx = {
+      modules: [mod],
+      read: async () => "/* lit-hmr-disable */\n:host { color: blue; }",
+      server: {},
+    } as unknown as HmrContext;
+    await (plugin.handleHotUpdate as Hook).call({}, ctx);
+    expect(mod.isSelfAccepting).toBeUndefined();
+  });
+});